@@ -8,25 +8,113 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AuditLog, AuditLogSchema, RepositoryConfig } from './types';
 import { sha256, createAuditHash, createInitialHash } from './crypto';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
 
 export interface AuditLogEntry {
   action: string;
   actor: string;
   target: string;
-  targetType: 'artifact' | 'commit' | 'branch' | 'rollback' | 'environment';
+  targetType: 'artifact' | 'commit' | 'branch' | 'rollback' | 'environment' | 'repository';
   details?: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
 }
 
+/**
+ * Storage key of the nth log entry; zero-padded so keys sort in log order
+ */
+export function auditLogKey(sequence: number): string {
+  return String(sequence).padStart(12, '0');
+}
+
+/**
+ * Verify that consecutive log entries form an unbroken hash chain: every
+ * hash matches its entry and every entry links to the one before it. The
+ * first entry's link is taken as given, so any slice of a log verifies.
+ */
+export function verifyAuditSegment(logs: AuditLog[]): { valid: boolean; brokenAt?: number } {
+  for (let i = 0; i < logs.length; i++) {
+    const log = logs[i];
+    
+    if (i > 0 && log.previousHash !== logs[i - 1].hash) {
+      return { valid: false, brokenAt: i };
+    }
+    
+    const logData = {
+      id: log.id,
+      action: log.action,
+      actor: log.actor,
+      target: log.target,
+      timestamp: log.timestamp.toISOString(),
+      details: log.details,
+    };
+    
+    if (log.hash !== createAuditHash(logData, log.previousHash)) {
+      return { valid: false, brokenAt: i };
+    }
+  }
+  
+  return { valid: true };
+}
+
 export class AuditLogService {
-  private logs: AuditLog[] = [];
+  private records: StorageCollection<AuditLog>;
+  private state: StorageCollection<any>;
   private config: RepositoryConfig;
-  private lastHash: string;
+  private chain: AuditLog[] | undefined; // Entries in chain order, read once
   
-  constructor(config: RepositoryConfig) {
+  constructor(config: RepositoryConfig, storage: StorageAdapter = new MemoryStorageAdapter()) {
     this.config = config;
-    this.lastHash = createInitialHash();
+    this.records = new StorageCollection(storage, STORAGE_COLLECTIONS.AUDIT_LOG);
+    this.state = new StorageCollection(storage, STORAGE_COLLECTIONS.AUDIT_STATE);
+    
+    if (!this.state.has('anchorHash')) {
+      // New log, or one stored before the anchor was recorded
+      const first = this.logs[0];
+      this.state.set('anchorHash', first ? first.previousHash : createInitialHash());
+    }
+  }
+  
+  /**
+   * Logs in chain order. Read from storage once, then kept up to date by
+   * append and archive.
+   */
+  private get logs(): AuditLog[] {
+    if (!this.chain) {
+      this.chain = this.records.keys().sort().map(key => this.records.get(key)!);
+    }
+    return this.chain;
+  }
+  
+  /**
+   * Sequence number of the newest entry. Also counts an entry written just
+   * before a crash, ahead of the state, so the chain cannot fork.
+   */
+  private get sequence(): number {
+    let sequence: number = this.state.get('sequence') ?? 0;
+    while (this.records.has(auditLogKey(sequence + 1))) sequence++;
+    return sequence;
+  }
+  
+  /**
+   * Hash at the end of the chain
+   */
+  private get lastHash(): string {
+    return this.records.get(auditLogKey(this.sequence))?.hash
+      ?? this.state.get('lastHash')
+      ?? this.state.get('anchorHash');
+  }
+  
+  /**
+   * Store a log entry at the end of the chain
+   */
+  private append(auditLog: AuditLog): void {
+    const sequence = this.sequence + 1;
+    
+    this.records.set(auditLogKey(sequence), auditLog);
+    this.state.set('sequence', sequence);
+    this.state.set('lastHash', auditLog.hash);
+    this.chain?.push(auditLog);
   }
   
   async log(entry: AuditLogEntry): Promise<AuditLog> {
@@ -42,7 +130,8 @@ export class AuditLogService {
       details: entry.details || {},
     };
     
-    const hash = createAuditHash(logData, this.lastHash);
+    const previousHash = this.lastHash;
+    const hash = createAuditHash(logData, previousHash);
     
     const auditLog: AuditLog = {
       id: id,
@@ -53,7 +142,7 @@ export class AuditLogService {
       timestamp: timestamp,
       details: entry.details || {},
       hash: hash,
-      previousHash: this.lastHash,
+      previousHash: previousHash,
       ipAddress: entry.ipAddress,
       userAgent: entry.userAgent,
     };
@@ -63,8 +152,7 @@ export class AuditLogService {
       throw new Error('Invalid audit log: ' + validated.error.message);
     }
     
-    this.logs.push(auditLog);
-    this.lastHash = hash;
+    this.append(auditLog);
     
     return auditLog;
   }
@@ -113,6 +201,13 @@ export class AuditLogService {
     return filtered.slice(offset, offset + limit);
   }
   
+  /**
+   * All logs in chain order, oldest first
+   */
+  getChain(): AuditLog[] {
+    return [...this.logs];
+  }
+  
   getLogsForArtifact(artifactId: string): AuditLog[] {
     return this.logs.filter(
       log => log.target === artifactId && log.targetType === 'artifact'
@@ -125,28 +220,24 @@ export class AuditLogService {
     );
   }
   
+  /**
+   * Verify the whole log: the chain must start at the anchor (the genesis
+   * hash, or the last archived entry) and end at the recorded last hash,
+   * so entries removed from either end are detected.
+   */
   verifyIntegrity(): { valid: boolean; brokenAt?: number } {
-    for (let i = 0; i < this.logs.length; i++) {
-      const log = this.logs[i];
-      const expectedPreviousHash = i > 0 ? this.logs[i - 1].hash : undefined;
-      
-      if (log.previousHash !== expectedPreviousHash) {
-        return { valid: false, brokenAt: i };
-      }
-      
-      const logData = {
-        id: log.id,
-        action: log.action,
-        actor: log.actor,
-        target: log.target,
-        timestamp: log.timestamp.toISOString(),
-        details: log.details,
-      };
-      
-      const computedHash = createAuditHash(logData, log.previousHash);
-      if (log.hash !== computedHash) {
-        return { valid: false, brokenAt: i };
-      }
+    const logs = this.logs;
+    
+    if (logs.length > 0 && logs[0].previousHash !== this.state.get('anchorHash')) {
+      return { valid: false, brokenAt: 0 };
+    }
+    
+    const segment = verifyAuditSegment(logs);
+    if (!segment.valid) return segment;
+    
+    const end = logs.length > 0 ? logs[logs.length - 1].hash : this.state.get('anchorHash');
+    if (end !== this.lastHash) {
+      return { valid: false, brokenAt: logs.length };
     }
     
     return { valid: true };
@@ -187,14 +278,23 @@ export class AuditLogService {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - this.config.retentionYears);
     
-    const toArchive = this.logs.filter(log => log.timestamp < cutoffDate);
-    const toRetain = this.logs.filter(log => log.timestamp >= cutoffDate);
+    // Archive only the oldest run of entries so the rest stay one chain
+    const logs = this.logs;
+    let archived = 0;
+    while (archived < logs.length && logs[archived].timestamp < cutoffDate) archived++;
     
-    this.logs = toRetain;
+    const keys = this.records.keys().sort();
+    for (const key of keys.slice(0, archived)) {
+      this.records.delete(key);
+    }
+    if (archived > 0) {
+      this.state.set('anchorHash', logs[archived - 1].hash);
+      this.chain = logs.slice(archived);
+    }
     
     return {
-      archived: toArchive.length,
-      retained: toRetain.length,
+      archived,
+      retained: logs.length - archived,
     };
   }
   
@@ -239,15 +339,18 @@ export class AuditLogService {
     }, null, 2);
   }
   
-  static deserialize(data: string, config: RepositoryConfig): AuditLogService {
+  static deserialize(data: string, config: RepositoryConfig, storage?: StorageAdapter): AuditLogService {
     const parsed = JSON.parse(data);
-    const service = new AuditLogService(config);
+    const service = new AuditLogService(config, storage);
     
-    service.logs = parsed.logs.map((log: any) => ({
-      ...log,
-      timestamp: new Date(log.timestamp),
-    }));
-    service.lastHash = parsed.lastHash;
+    service.records.clear();
+    service.state.clear();
+    service.chain = undefined;
+    service.state.set('anchorHash', parsed.logs[0]?.previousHash ?? parsed.lastHash);
+    for (const log of parsed.logs) {
+      service.append({ ...log, timestamp: new Date(log.timestamp) });
+    }
+    service.state.set('lastHash', parsed.lastHash);
     
     return service;
   }
@@ -280,14 +383,25 @@ export const AUDIT_ACTIONS = {
   ARTIFACT_CREATED: 'ARTIFACT_CREATED',
   ARTIFACT_UPDATED: 'ARTIFACT_UPDATED',
   ARTIFACT_DELETED: 'ARTIFACT_DELETED',
+  ARTIFACT_RESTORED: 'ARTIFACT_RESTORED',
+  ARTIFACT_PURGED: 'ARTIFACT_PURGED',
+  LEGAL_HOLD_PLACED: 'LEGAL_HOLD_PLACED',
+  LEGAL_HOLD_RELEASED: 'LEGAL_HOLD_RELEASED',
   ARTIFACT_TAGGED: 'ARTIFACT_TAGGED',
+  TAG_DELETED: 'TAG_DELETED',
+  TAG_MOVED: 'TAG_MOVED',
   COMMIT_CREATED: 'COMMIT_CREATED',
   COMMIT_SIGNED: 'COMMIT_SIGNED',
   COMMIT_APPROVED: 'COMMIT_APPROVED',
+  COMMIT_CHERRY_PICKED: 'COMMIT_CHERRY_PICKED',
+  COMMIT_REVERTED: 'COMMIT_REVERTED',
   BRANCH_CREATED: 'BRANCH_CREATED',
   BRANCH_DELETED: 'BRANCH_DELETED',
   BRANCH_MERGED: 'BRANCH_MERGED',
   BRANCH_UPDATED: 'BRANCH_UPDATED',
+  MERGE_CONFLICT_DETECTED: 'MERGE_CONFLICT_DETECTED',
+  MERGE_CONFLICT_RESOLVED: 'MERGE_CONFLICT_RESOLVED',
+  MERGE_ABORTED: 'MERGE_ABORTED',
   ROLLBACK_INITIATED: 'ROLLBACK_INITIATED',
   ROLLBACK_COMPLETED: 'ROLLBACK_COMPLETED',
   ROLLBACK_FAILED: 'ROLLBACK_FAILED',
@@ -301,4 +415,8 @@ export const AUDIT_ACTIONS = {
   PR_APPROVED: 'PR_APPROVED',
   PR_MERGED: 'PR_MERGED',
   PR_CLOSED: 'PR_CLOSED',
+  BUNDLE_EXPORTED: 'BUNDLE_EXPORTED',
+  BUNDLE_IMPORTED: 'BUNDLE_IMPORTED',
+  OPERATION_REJECTED: 'OPERATION_REJECTED',
+  HOOK_FAILED: 'HOOK_FAILED',
 } as const;
@@ -6,12 +6,16 @@
  * - develop: Integration branch
  * - feature/*: Isolated experiments
  * - hotfix/*: Critical fixes
+ * - release/*: Release stabilization; release/<version> cuts release
+ *   candidates of that version
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { Branch, BranchType, BranchSchema, RepositoryConfig } from './types';
+import { Branch, BranchType, BranchSchema, Commit, RepositoryConfig, isValidVersion, promoteVersion } from './types';
 import { sha256 } from './crypto';
 import { AuditLogService } from './audit';
+import { CommitGraph } from './commit-graph';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
 
 /**
  * Branch naming patterns
@@ -38,6 +42,34 @@ export function getBranchType(branchName: string): BranchType {
   return 'feature';
 }
 
+/**
+ * Get the release a release branch targets, e.g. "release/v2.0.0" -> "2.0.0".
+ * Release branches not named after a version have no target.
+ */
+export function getReleaseVersion(branchName: string): string | undefined {
+  if (getBranchType(branchName) !== 'release' || !BRANCH_PATTERNS.RELEASE.test(branchName)) {
+    return undefined;
+  }
+  
+  const version = branchName.slice('release/'.length).replace(/^v/, '');
+  return isValidVersion(version) ? promoteVersion(version) : undefined;
+}
+
+/**
+ * Find a ref name that nests with another, like "feature/a" and
+ * "feature/a/b". Refs are files on disk, where one path cannot be both a
+ * file and a directory, so nested names are rejected with every adapter.
+ */
+export function findNestedRef(name: string, names: Iterable<string>): string | undefined {
+  for (const other of names) {
+    if (other.startsWith(`${name}/`) || name.startsWith(`${other}/`)) {
+      return other;
+    }
+  }
+  
+  return undefined;
+}
+
 /**
  * Validate branch name
  */
@@ -80,18 +112,44 @@ export function validateBranchName(name: string): { valid: boolean; error?: stri
   return { valid: true };
 }
 
+/**
+ * Entry in a branch's head history
+ */
+export interface ReflogEntry {
+  commitId: string | null;
+  timestamp: Date;
+  updatedBy: string;
+  deleted?: boolean; // The branch was deleted at this point
+}
+
 /**
  * Branch Manager - Handles all branch operations
  */
 export class BranchManager {
-  private branches: Map<string, Branch> = new Map();
+  private branches: StorageCollection<Branch>;
+  private reflog: StorageCollection<ReflogEntry[]>;
+  private state: StorageCollection<any>;
   private config: RepositoryConfig;
   private auditLog: AuditLogService;
+  private commitGraph?: CommitGraph;
   
-  constructor(config: RepositoryConfig, auditLog: AuditLogService) {
+  constructor(
+    config: RepositoryConfig,
+    auditLog: AuditLogService,
+    commitGraph?: CommitGraph,
+    storage: StorageAdapter = new MemoryStorageAdapter()
+  ) {
     this.config = config;
     this.auditLog = auditLog;
-    this.initializeDefaultBranches();
+    this.commitGraph = commitGraph;
+    this.branches = new StorageCollection(storage, STORAGE_COLLECTIONS.BRANCHES);
+    this.reflog = new StorageCollection(storage, STORAGE_COLLECTIONS.REFLOG);
+    this.state = new StorageCollection(storage, STORAGE_COLLECTIONS.BRANCH_STATE);
+    
+    // Storage that already holds branches is reopened as is
+    if (this.branches.size === 0) {
+      this.initializeDefaultBranches();
+    }
   }
   
   /**
@@ -109,6 +167,7 @@ export class BranchManager {
       description: 'Production-stable branch',
     };
     this.branches.set('main', mainBranch);
+    this.recordHead('main', null, 'system', mainBranch.createdAt);
     
     // Create develop branch
     const developBranch: Branch = {
@@ -121,6 +180,7 @@ export class BranchManager {
       description: 'Integration branch for development',
     };
     this.branches.set('develop', developBranch);
+    this.recordHead('develop', null, 'system', developBranch.createdAt);
   }
   
   /**
@@ -143,6 +203,11 @@ export class BranchManager {
       throw new Error(`Branch "${name}" already exists`);
     }
     
+    const nested = findNestedRef(name, this.branches.keys());
+    if (nested) {
+      throw new Error(`Branch "${name}" conflicts with branch "${nested}"; a branch name cannot be a folder of another`);
+    }
+    
     // Determine branch type
     const type = getBranchType(name);
     
@@ -173,6 +238,7 @@ export class BranchManager {
     }
     
     this.branches.set(name, branch);
+    this.recordHead(name, headCommit, createdBy, branch.createdAt);
     
     // Audit log
     await this.auditLog.log({
@@ -200,7 +266,12 @@ export class BranchManager {
       throw new Error(`Cannot delete protected branch "${name}"`);
     }
     
+    if (name === this.getCurrentBranch()) {
+      throw new Error(`Cannot delete the checked-out branch "${name}"; check out another branch first`);
+    }
+    
     this.branches.delete(name);
+    this.recordHead(name, null, deletedBy, new Date(), true);
     
     // Audit log
     await this.auditLog.log({
@@ -234,13 +305,9 @@ export class BranchManager {
   }
   
   /**
-   * Update branch head commit
+   * Check that a user may move a branch head, before anything is written
    */
-  async updateHeadCommit(
-    branchName: string,
-    commitId: string,
-    updatedBy: string
-  ): Promise<void> {
+  assertCanUpdateHead(branchName: string, updatedBy: string): Branch {
     const branch = this.branches.get(branchName);
     
     if (!branch) {
@@ -251,7 +318,22 @@ export class BranchManager {
       throw new Error(`Cannot push to protected branch "${branchName}" without approval`);
     }
     
-    branch.headCommit = commitId;
+    return branch;
+  }
+  
+  /**
+   * Update branch head commit
+   */
+  async updateHeadCommit(
+    branchName: string,
+    commitId: string,
+    updatedBy: string
+  ): Promise<void> {
+    const branch = this.assertCanUpdateHead(branchName, updatedBy);
+    
+    // Write a copy so a failed write leaves the stored record untouched
+    this.branches.set(branchName, { ...branch, headCommit: commitId });
+    this.recordHead(branchName, commitId, updatedBy);
     
     // Audit log
     await this.auditLog.log({
@@ -263,6 +345,50 @@ export class BranchManager {
     });
   }
   
+  /**
+   * Append an entry to a branch's head history
+   */
+  private recordHead(
+    branchName: string,
+    commitId: string | null,
+    updatedBy: string,
+    timestamp: Date = new Date(),
+    deleted: boolean = false
+  ): void {
+    const entries = this.reflog.get(branchName) || [];
+    entries.push(deleted ? { commitId, timestamp, updatedBy, deleted } : { commitId, timestamp, updatedBy });
+    this.reflog.set(branchName, entries);
+  }
+  
+  /**
+   * Get the head history of a branch, oldest first
+   */
+  getReflog(branchName: string): ReflogEntry[] {
+    return [...(this.reflog.get(branchName) || [])];
+  }
+  
+  /**
+   * Get the head commit a branch pointed at as of a date.
+   * Returns undefined if the branch did not exist at that date.
+   */
+  getHeadAt(branchName: string, asOf: Date): string | null | undefined {
+    let head: string | null | undefined;
+    
+    for (const entry of this.reflog.get(branchName) || []) {
+      if (entry.timestamp > asOf) break;
+      head = entry.deleted ? undefined : entry.commitId;
+    }
+    
+    return head;
+  }
+  
+  /**
+   * Get names of all branches that have ever existed, including deleted ones
+   */
+  getKnownBranchNames(): string[] {
+    return Array.from(this.reflog.keys());
+  }
+  
   /**
    * Get default base branch for a given type
    */
@@ -293,7 +419,13 @@ export class BranchManager {
   /**
    * Get current branch (for working directory)
    */
-  private currentBranch: string = 'main';
+  private get currentBranch(): string {
+    return this.state.get('currentBranch') ?? 'main';
+  }
+  
+  private set currentBranch(name: string) {
+    this.state.set('currentBranch', name);
+  }
   
   getCurrentBranch(): string {
     return this.currentBranch;
@@ -331,12 +463,53 @@ export class BranchManager {
     return branches;
   }
   
+  /**
+   * Get the commit graph, which is required for history queries
+   */
+  private requireCommitGraph(): CommitGraph {
+    if (!this.commitGraph) {
+      throw new Error('Commit graph is not available for this branch manager');
+    }
+    return this.commitGraph;
+  }
+  
+  /**
+   * Get a branch, throwing if it does not exist
+   */
+  private requireBranch(name: string): Branch {
+    const branch = this.branches.get(name);
+    if (!branch) {
+      throw new Error(`Branch "${name}" does not exist`);
+    }
+    return branch;
+  }
+  
+  /**
+   * Get topologically ordered history of a branch, newest first
+   */
+  getBranchLog(branchName: string, options?: { limit?: number; artifactId?: string }): Commit[] {
+    const branch = this.requireBranch(branchName);
+    return this.requireCommitGraph().log(branch.headCommit, options);
+  }
+  
+  /**
+   * Get the merge-base commit of two branches
+   */
+  getMergeBase(branchA: string, branchB: string): string | null {
+    const a = this.requireBranch(branchA);
+    const b = this.requireBranch(branchB);
+    return this.requireCommitGraph().mergeBase(a.headCommit, b.headCommit);
+  }
+  
   /**
    * Get branch difference (commits ahead/behind)
    */
   getBranchDifference(sourceBranch: string, targetBranch: string): {
     ahead: number;
     behind: number;
+    aheadCommits: Commit[];
+    behindCommits: Commit[];
+    mergeBase: string | null;
   } {
     const source = this.branches.get(sourceBranch);
     const target = this.branches.get(targetBranch);
@@ -345,13 +518,14 @@ export class BranchManager {
       throw new Error('One or both branches not found');
     }
     
-    // Simplified - in production, this would track actual commit history
-    const sourceHead = source.headCommit ? 1 : 0;
-    const targetHead = target.headCommit ? 1 : 0;
+    const difference = this.requireCommitGraph().difference(source.headCommit, target.headCommit);
     
     return {
-      ahead: Math.max(0, sourceHead - targetHead),
-      behind: Math.max(0, targetHead - sourceHead),
+      ahead: difference.ahead.length,
+      behind: difference.behind.length,
+      aheadCommits: difference.ahead,
+      behindCommits: difference.behind,
+      mergeBase: difference.mergeBase,
     };
   }
   
@@ -361,6 +535,7 @@ export class BranchManager {
   serialize(): string {
     const data = {
       branches: Array.from(this.branches.entries()),
+      reflog: Array.from(this.reflog.entries()),
       currentBranch: this.currentBranch,
     };
     return JSON.stringify(data, null, 2);
@@ -369,11 +544,26 @@ export class BranchManager {
   /**
    * Deserialize branches from storage
    */
-  static deserialize(data: string, config: RepositoryConfig, auditLog: AuditLogService): BranchManager {
+  static deserialize(
+    data: string,
+    config: RepositoryConfig,
+    auditLog: AuditLogService,
+    commitGraph?: CommitGraph,
+    storage?: StorageAdapter
+  ): BranchManager {
     const parsed = JSON.parse(data);
-    const manager = new BranchManager(config, auditLog);
+    const manager = new BranchManager(config, auditLog, commitGraph, storage);
     
-    manager.branches = new Map(parsed.branches);
+    manager.branches.clear();
+    for (const [name, branch] of parsed.branches as [string, any][]) {
+      manager.branches.set(name, { ...branch, createdAt: new Date(branch.createdAt) });
+    }
+    if (parsed.reflog) {
+      manager.reflog.clear();
+      for (const [name, entries] of parsed.reflog as [string, any[]][]) {
+        manager.reflog.set(name, entries.map(e => ({ ...e, timestamp: new Date(e.timestamp) })));
+      }
+    }
     manager.currentBranch = parsed.currentBranch || 'main';
     
     return manager;
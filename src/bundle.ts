@@ -0,0 +1,157 @@
+/**
+ * Agent Pipeline Versioning - Repository Bundles
+ *
+ * A bundle is a self-contained, signed file that carries history from one
+ * repository to another without a network connection (e.g. into an
+ * air-gapped production repository):
+ * - Branch heads and tags being transferred
+ * - Every commit reachable from them (optionally only those since a date)
+ * - The content objects those commits reference
+ * - The audit log entries recorded for them, as an unbroken hash chain
+ *
+ * Bundles and the commits in them carry HMAC signatures made with the
+ * exporting repository's signing key, and the importer checks them with
+ * its own key. Only repositories that share one signing key can exchange
+ * bundles; a bundle from any other repository is rejected.
+ *
+ * The signing key is a shared secret, so signatures prove integrity, not
+ * authorship: they show a bundle was made by some holder of the key and
+ * not altered since. Anyone holding the key can sign as any author.
+ */
+
+import { z } from 'zod';
+import { CommitSchema, TagSchema, AuditLogSchema, PurgeRecordSchema, AuditLog } from './types';
+import { generateSignature, verifySignature } from './crypto';
+import { encodeRecord, decodeRecord } from './storage';
+
+/**
+ * Current bundle format version
+ */
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export const RepositoryBundleSchema = z.object({
+  formatVersion: z.literal(BUNDLE_FORMAT_VERSION),
+  id: z.string().uuid(),
+  repository: z.string(), // Name of the exporting repository
+  keyId: z.string().optional(), // Identifies the signing key; absent in older bundles
+  createdAt: z.date(),
+  createdBy: z.string(),
+  since: z.date().optional(),
+  branches: z.record(z.string()), // Branch name -> head commit ID
+  tags: z.array(TagSchema),
+  prerequisites: z.array(z.string()), // Commits the bundle builds on but does not carry
+  commits: z.array(CommitSchema),
+  objects: z.array(z.tuple([z.string(), z.string()])), // [hash, blob]
+  purged: z.array(PurgeRecordSchema), // Artifacts whose content was purged at the source
+  auditLog: z.array(AuditLogSchema),
+  signature: z.string(),
+});
+export type RepositoryBundle = z.infer<typeof RepositoryBundleSchema>;
+
+/**
+ * What to put in a bundle
+ */
+export interface ExportBundleOptions {
+  refs?: string[]; // Branch and tag names; every branch and tag if omitted
+  since?: Date; // Leave out commits made before this date
+  exclude?: string[]; // Commits the receiver already has; their history is left out
+  exportedBy?: string;
+  file?: string; // Also write the bundle to this file
+}
+
+/**
+ * How to import a bundle
+ */
+export interface ImportBundleOptions {
+  // What to do with a branch whose history has diverged from the bundle:
+  // reject the bundle (default), skip the branch and report it, or
+  // overwrite it. Protected branches are never overwritten.
+  onDiverged?: 'reject' | 'skip' | 'overwrite';
+  claimedBy?: string; // Who the sender says made the import; recorded, not trusted
+}
+
+/**
+ * Outcome of importing a bundle
+ */
+export interface ImportBundleResult {
+  bundleId: string;
+  commits: string[]; // Commits that were new to the repository
+  branches: Record<string, string>; // Branches created or moved -> new head
+  tags: string[]; // Tags that were new to the repository
+  diverged: string[]; // Branches left alone because their history diverged
+}
+
+/**
+ * Provenance kept for every imported bundle
+ */
+export interface BundleImportRecord {
+  bundleId: string;
+  repository: string;
+  createdAt: Date;
+  createdBy: string;
+  importedAt: Date;
+  importedBy: string;
+  claimedBy?: string;
+  branches: Record<string, string>;
+  tags: string[];
+  commits: string[];
+  auditLog: AuditLog[]; // The source repository's audit entries, as received
+}
+
+/**
+ * Identify a signing key without revealing it, so an importer can tell a
+ * bundle signed with another key from one altered in transit
+ */
+export function signingKeyId(signingKey: string): string {
+  return generateSignature('bundle-signing-key', signingKey).slice(0, 16);
+}
+
+/**
+ * Sign a bundle with the repository key. The signature covers every field,
+ * so refs and lightweight tags cannot be altered in transit either.
+ */
+export function signBundle(bundle: Omit<RepositoryBundle, 'signature'>, signingKey: string): string {
+  return generateSignature(encodeRecord(bundle), signingKey);
+}
+
+/**
+ * Verify a bundle's signature. Fails unless the bundle was signed with the
+ * same key, i.e. by a repository sharing the verifier's signing key. This
+ * checks integrity only, not who created the bundle or its commits.
+ */
+export function verifyBundleSignature(bundle: RepositoryBundle, signingKey: string): boolean {
+  const { signature, ...unsigned } = bundle;
+  return verifySignature(encodeRecord(unsigned), signature, signingKey);
+}
+
+/**
+ * Encode a bundle for writing to a file
+ */
+export function encodeBundle(bundle: RepositoryBundle): string {
+  return encodeRecord(bundle, 2);
+}
+
+/**
+ * Decode and validate a bundle file
+ */
+export function decodeBundle(text: string): RepositoryBundle {
+  let data: any;
+
+  try {
+    data = decodeRecord(text);
+  } catch (error) {
+    throw new Error(`Invalid bundle: ${(error as Error).message}`);
+  }
+
+  if (data?.formatVersion !== BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Unsupported bundle format v${data?.formatVersion}`);
+  }
+
+  const validated = RepositoryBundleSchema.safeParse(data);
+  if (!validated.success) {
+    throw new Error(`Invalid bundle: ${validated.error.message}`);
+  }
+
+  // Keep the data as decoded: the signature is over its exact field order
+  return data;
+}
@@ -0,0 +1,208 @@
+/**
+ * Agent Pipeline Versioning - Commit Graph
+ *
+ * Traverses the commit DAG formed by Commit.parentCommits:
+ * - Ancestor walks and reachability checks
+ * - Topological log (children before parents, newest first)
+ * - Merge-base of two commits
+ * - Ahead/behind commit lists between two heads
+ */
+
+import { Commit } from './types';
+
+/**
+ * Resolves a commit by ID
+ */
+export type CommitLookup = (commitId: string) => Commit | undefined;
+
+/**
+ * Commits unique to each side of a comparison
+ */
+export interface CommitDifference {
+  ahead: Commit[];
+  behind: Commit[];
+  mergeBase: string | null;
+}
+
+/**
+ * Commit Graph - Read-only view over the commit DAG
+ */
+export class CommitGraph {
+  private lookup: CommitLookup;
+
+  constructor(lookup: CommitLookup) {
+    this.lookup = lookup;
+  }
+
+  /**
+   * Get a commit, throwing if it does not exist
+   */
+  private require(commitId: string): Commit {
+    const commit = this.lookup(commitId);
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    return commit;
+  }
+
+  /**
+   * Get parent commit IDs
+   */
+  getParents(commitId: string): string[] {
+    return this.require(commitId).parentCommits;
+  }
+
+  /**
+   * Get all ancestors of a commit in breadth-first order, including the
+   * commit itself unless includeSelf is false
+   */
+  ancestors(commitId: string, includeSelf: boolean = true): string[] {
+    const result: string[] = [];
+    const visited = new Set<string>();
+    const queue = [commitId];
+
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const commit = this.require(id);
+      if (includeSelf || id !== commitId) {
+        result.push(id);
+      }
+      queue.push(...commit.parentCommits);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get every commit reachable from any of the given heads
+   */
+  reachable(headIds: Array<string | null>): Set<string> {
+    const visited = new Set<string>();
+    const queue = headIds.filter((id): id is string => !!id);
+
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (visited.has(id)) continue;
+      visited.add(id);
+      queue.push(...this.require(id).parentCommits);
+    }
+
+    return visited;
+  }
+
+  /**
+   * Check whether one commit is an ancestor of (or equal to) another
+   */
+  isAncestor(ancestorId: string, descendantId: string): boolean {
+    const visited = new Set<string>();
+    const queue = [descendantId];
+
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (id === ancestorId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      queue.push(...this.require(id).parentCommits);
+    }
+
+    return false;
+  }
+
+  /**
+   * Topologically ordered history reachable from a head: every commit
+   * appears before its parents, and ties are broken newest first
+   */
+  log(headId: string | null, options?: { limit?: number; artifactId?: string }): Commit[] {
+    if (!headId) return [];
+
+    const reachable = this.ancestors(headId).map(id => this.require(id));
+    const childCount = new Map<string, number>(reachable.map(c => [c.id, 0]));
+
+    for (const commit of reachable) {
+      for (const parent of commit.parentCommits) {
+        childCount.set(parent, (childCount.get(parent) || 0) + 1);
+      }
+    }
+
+    const ready = reachable.filter(c => childCount.get(c.id) === 0);
+    const ordered: Commit[] = [];
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      const commit = ready.shift()!;
+      ordered.push(commit);
+
+      for (const parent of commit.parentCommits) {
+        const remaining = childCount.get(parent)! - 1;
+        childCount.set(parent, remaining);
+        if (remaining === 0) {
+          ready.push(this.require(parent));
+        }
+      }
+    }
+
+    let result = ordered;
+
+    if (options?.artifactId) {
+      result = result.filter(c => c.artifactIds.includes(options.artifactId!));
+    }
+
+    if (options?.limit) {
+      result = result.slice(0, options.limit);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the best common ancestor of two commits.
+   * When several exist (criss-cross merges), the most recent one is returned.
+   */
+  mergeBase(a: string | null, b: string | null): string | null {
+    if (!a || !b) return null;
+
+    // Mark: ancestors of a that b reaches too
+    const ancestorsOfA = new Set(this.ancestors(a));
+    const common = this.ancestors(b).filter(id => ancestorsOfA.has(id));
+
+    if (common.length === 0) return null;
+
+    // Sweep: one shared walk below the common ancestors drops those that
+    // are reachable from another common ancestor
+    const redundant = new Set<string>();
+    const queue = common.flatMap(id => this.require(id).parentCommits);
+
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (redundant.has(id)) continue;
+      redundant.add(id);
+      queue.push(...this.require(id).parentCommits);
+    }
+
+    const best = common
+      .filter(id => !redundant.has(id))
+      .map(id => this.require(id))
+      .sort((x, y) => y.timestamp.getTime() - x.timestamp.getTime());
+
+    return best[0].id;
+  }
+
+  /**
+   * Commits reachable from source but not target (ahead) and vice versa (behind)
+   */
+  difference(sourceHead: string | null, targetHead: string | null): CommitDifference {
+    const sourceLog = this.log(sourceHead);
+    const targetLog = this.log(targetHead);
+    const inSource = new Set(sourceLog.map(c => c.id));
+    const inTarget = new Set(targetLog.map(c => c.id));
+
+    return {
+      ahead: sourceLog.filter(c => !inTarget.has(c.id)),
+      behind: targetLog.filter(c => !inSource.has(c.id)),
+      mergeBase: this.mergeBase(sourceHead, targetHead),
+    };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Agent Pipeline Versioning - Artifact Content Schemas
+ *
+ * Validates artifact content per ArtifactType:
+ * - Built-in Zod schemas for workflow, prompt, model, tool and data content
+ * - A registry for custom schemas; registering adds a new schema version
+ * - Artifacts record the schema version they were written with, so old
+ *   content keeps validating against its own schema
+ * Zod schemas cannot be stored, so only their identifiers are persisted.
+ * Custom schemas are registered again, in the same order, after a
+ * repository is opened; until then content that needs one fails with an
+ * error naming the missing schema.
+ */
+
+import { z } from 'zod';
+import { ArtifactType } from './types';
+import { formatPath } from './diff';
+import { StorageAdapter, StorageCollection, STORAGE_COLLECTIONS } from './storage';
+
+/**
+ * A path-level content validation error
+ */
+export interface ContentValidationIssue {
+  path: string; // JSON path, e.g. $.nodes[0].id
+  message: string;
+}
+
+/**
+ * Result of validating content against a schema version
+ */
+export interface ContentValidationResult {
+  valid: boolean;
+  schemaVersion: number;
+  issues: ContentValidationIssue[];
+}
+
+/**
+ * Persisted identifier of a registered schema version
+ */
+export interface ContentSchemaRecord {
+  version: number;
+  id: string;
+}
+
+// ============================================================================
+// Built-in Schemas
+// ============================================================================
+
+const WorkflowNodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().optional(),
+  agent: z.string().optional(),
+  tools: z.array(z.string()).optional(), // Tool artifact names
+  handoffs: z.array(z.string()).optional(), // Node IDs this agent may hand off to
+}).passthrough();
+
+const WorkflowEdgeSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  loop: z.boolean().optional(), // Loop-back edge allowed to close a cycle
+}).passthrough();
+
+export const WorkflowContentSchema = z.object({
+  nodes: z.array(WorkflowNodeSchema),
+  edges: z.array(WorkflowEdgeSchema).default([]),
+  entry: z.string().optional(),
+  exits: z.array(z.string()).optional(),
+  allowCycles: z.boolean().optional(),
+}).passthrough();
+
+const PromptVariableSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    required: z.boolean().optional(),
+    default: z.any().optional(),
+    description: z.string().optional(),
+  }).passthrough(),
+]);
+
+export const PromptContentSchema = z.object({
+  template: z.string().min(1),
+  variables: z.array(PromptVariableSchema).default([]),
+}).passthrough();
+
+export const ModelContentSchema = z.object({
+  provider: z.string().min(1),
+  modelId: z.string().min(1),
+  parameters: z.record(z.any()).optional(),
+}).passthrough();
+
+const JsonSchemaObject = z.record(z.any());
+
+export const ToolContentSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  inputSchema: JsonSchemaObject,
+  outputSchema: JsonSchemaObject.optional(),
+}).passthrough();
+
+export const DataContentSchema = z.any();
+
+/**
+ * Built-in content schemas (schema version 1 of each artifact type)
+ */
+export const DEFAULT_CONTENT_SCHEMAS: Record<ArtifactType, z.ZodTypeAny> = {
+  workflow: WorkflowContentSchema,
+  prompt: PromptContentSchema,
+  model: ModelContentSchema,
+  tool: ToolContentSchema,
+  data: DataContentSchema,
+};
+
+/**
+ * Convert Zod issues to path-level errors
+ */
+export function formatContentIssues(error: z.ZodError): ContentValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Content Schema Registry - Versioned content schemas per artifact type
+ */
+export class ContentSchemaRegistry {
+  private schemas: Map<ArtifactType, Map<number, z.ZodTypeAny>> = new Map();
+  private records?: StorageCollection<ContentSchemaRecord[]>;
+
+  constructor(
+    schemas: Partial<Record<ArtifactType, z.ZodTypeAny>> = DEFAULT_CONTENT_SCHEMAS,
+    storage?: StorageAdapter
+  ) {
+    if (storage) {
+      this.records = new StorageCollection(storage, STORAGE_COLLECTIONS.CONTENT_SCHEMAS);
+    }
+
+    for (const [type, schema] of Object.entries(schemas) as [ArtifactType, z.ZodTypeAny][]) {
+      this.register(type, schema);
+    }
+  }
+
+  /**
+   * Register a schema for an artifact type as its next schema version.
+   * Earlier versions stay available for content written with them.
+   * The ID (default "<type>-v<version>") is persisted; registering again
+   * after reopening must use the same IDs in the same order.
+   */
+  register(type: ArtifactType, schema: z.ZodTypeAny, id?: string): number {
+    const versions = this.schemas.get(type) || new Map<number, z.ZodTypeAny>();
+    const version = versions.size + 1;
+    const schemaId = id ?? `${type}-v${version}`;
+    const records = this.records?.get(type) || [];
+    const recorded = records.find(r => r.version === version);
+
+    if (recorded && recorded.id !== schemaId) {
+      throw new Error(`Content schema v${version} for "${type}" is "${recorded.id}", not "${schemaId}"`);
+    }
+
+    versions.set(version, schema);
+    this.schemas.set(type, versions);
+
+    if (!recorded) {
+      this.records?.set(type, [...records, { version, id: schemaId }]);
+    }
+
+    return version;
+  }
+
+  /**
+   * Get the latest schema version for an artifact type, including
+   * persisted versions not registered since the repository was opened
+   */
+  getLatestVersion(type: ArtifactType): number | undefined {
+    const latest = Math.max(this.schemas.get(type)?.size || 0, this.records?.get(type)?.length || 0);
+    return latest > 0 ? latest : undefined;
+  }
+
+  /**
+   * Get a schema (latest version if omitted)
+   */
+  getSchema(type: ArtifactType, version?: number): z.ZodTypeAny | undefined {
+    const resolved = version ?? this.getLatestVersion(type);
+    return resolved === undefined ? undefined : this.schemas.get(type)?.get(resolved);
+  }
+
+  /**
+   * Validate content against a schema version (latest if omitted).
+   * Types without a schema accept any content.
+   */
+  validate(type: ArtifactType, content: any, version?: number): ContentValidationResult {
+    const schemaVersion = version ?? this.getLatestVersion(type);
+
+    if (schemaVersion === undefined) {
+      return { valid: true, schemaVersion: 0, issues: [] };
+    }
+
+    const schema = this.getSchema(type, schemaVersion);
+
+    if (!schema) {
+      const recorded = this.records?.get(type)?.find(r => r.version === schemaVersion);
+      if (recorded) {
+        throw new Error(
+          `Content schema "${recorded.id}" (v${schemaVersion} for "${type}") is not registered; register it again after opening the repository`
+        );
+      }
+      throw new Error(`Content schema version ${schemaVersion} for "${type}" does not exist`);
+    }
+
+    const result = schema.safeParse(content);
+
+    return {
+      valid: result.success,
+      schemaVersion,
+      issues: result.success ? [] : formatContentIssues(result.error),
+    };
+  }
+
+  /**
+   * Validate content, throwing a readable error listing every invalid path
+   */
+  assertValid(type: ArtifactType, content: any, version?: number): number {
+    const result = this.validate(type, content, version);
+
+    if (!result.valid) {
+      const details = result.issues.map(i => `${i.path}: ${i.message}`).join('; ');
+      throw new Error(`Invalid ${type} content (schema v${result.schemaVersion}): ${details}`);
+    }
+
+    return result.schemaVersion;
+  }
+}
+
+/**
+ * Create a registry preloaded with the built-in schemas. With storage,
+ * the IDs of registered schema versions are persisted there.
+ */
+export function createContentSchemaRegistry(storage?: StorageAdapter): ContentSchemaRegistry {
+  return new ContentSchemaRegistry(DEFAULT_CONTENT_SCHEMAS, storage);
+}
@@ -0,0 +1,356 @@
+/**
+ * Agent Pipeline Versioning - Artifact Dependencies
+ *
+ * Resolves declared name@range references between artifacts:
+ * - Builds the dependency graph for a set of artifacts
+ * - Reports missing or unsatisfied references and dependency cycles
+ * - Answers "what depends on X" for impact analysis before a change
+ */
+
+import {
+  ArtifactType,
+  DependencyReference,
+  DependencyReferenceSchema,
+  VersionedArtifact,
+  compareVersions,
+} from './types';
+import { isValidRange, satisfies } from './semver';
+
+/**
+ * Parse a "name@range" reference. A name without a range matches any version.
+ */
+export function parseDependencyReference(reference: string): DependencyReference {
+  // Search from index 1 so scoped names like "@team/prompt" keep their "@"
+  const at = reference.lastIndexOf('@');
+  const name = at > 0 ? reference.slice(0, at) : reference;
+  const range = at > 0 ? reference.slice(at + 1) : '*';
+
+  return validateDependencyReference({ name: name.trim(), range: range.trim() || '*' });
+}
+
+/**
+ * Format a reference as "name@range"
+ */
+export function formatDependencyReference(reference: DependencyReference): string {
+  return `${reference.name}@${reference.range}`;
+}
+
+/**
+ * Validate a reference, including its version range
+ */
+export function validateDependencyReference(reference: DependencyReference): DependencyReference {
+  const validated = DependencyReferenceSchema.safeParse(reference);
+  if (!validated.success) {
+    throw new Error(`Invalid dependency: ${validated.error.message}`);
+  }
+
+  if (!isValidRange(validated.data.range)) {
+    throw new Error(`Invalid dependency "${formatDependencyReference(validated.data)}": bad version range`);
+  }
+
+  return validated.data;
+}
+
+/**
+ * Validate declared references given as objects or "name@range" strings
+ */
+export function normalizeDependencies(
+  references: Array<DependencyReference | string>
+): DependencyReference[] {
+  return references.map(ref =>
+    typeof ref === 'string' ? parseDependencyReference(ref) : validateDependencyReference(ref)
+  );
+}
+
+/**
+ * Outcome of resolving one declared reference
+ */
+export interface ResolvedDependency {
+  from: string; // Artifact ID declaring the reference
+  reference: DependencyReference;
+  status: 'resolved' | 'missing' | 'unsatisfied';
+  artifactId?: string; // Set when resolved
+  version?: string; // Set when resolved
+  availableVersions?: string[]; // Set when unsatisfied
+}
+
+/**
+ * A dependent affected by a proposed change
+ */
+export interface DependentImpact {
+  artifactId: string;
+  name: string;
+  type: ArtifactType;
+  direct: boolean;
+  reference?: DependencyReference; // Set for direct dependents
+  satisfied: boolean; // Whether the direct reference still matches the proposed version
+}
+
+/**
+ * Impact of changing an artifact to a proposed version
+ */
+export interface DependencyImpact {
+  artifactId: string;
+  currentVersion: string;
+  proposedVersion: string;
+  dependents: DependentImpact[];
+  breaking: DependentImpact[];
+}
+
+/**
+ * Dependency Graph - Resolved references between a set of artifacts
+ */
+export class DependencyGraph {
+  private artifacts: Map<string, VersionedArtifact>;
+  private edges: Map<string, ResolvedDependency[]> = new Map();
+  private reverse: Map<string, ResolvedDependency[]> = new Map();
+
+  constructor(artifacts: VersionedArtifact[]) {
+    this.artifacts = new Map(artifacts.map(a => [a.id, a]));
+
+    for (const artifact of artifacts) {
+      const resolved = (artifact.dependencies || []).map(ref => this.resolve(artifact.id, ref));
+      this.edges.set(artifact.id, resolved);
+
+      for (const dependency of resolved) {
+        if (!dependency.artifactId) continue;
+        const dependents = this.reverse.get(dependency.artifactId) || [];
+        dependents.push(dependency);
+        this.reverse.set(dependency.artifactId, dependents);
+      }
+    }
+  }
+
+  /**
+   * Resolve a reference to the highest matching artifact by name and type
+   */
+  private resolve(from: string, reference: DependencyReference): ResolvedDependency {
+    const candidates = Array.from(this.artifacts.values())
+      .filter(a => a.name === reference.name && (!reference.type || a.type === reference.type));
+
+    if (candidates.length === 0) {
+      return { from, reference, status: 'missing' };
+    }
+
+    const matching = candidates
+      .filter(a => satisfies(a.version, reference.range))
+      .sort((a, b) => compareVersions(b.version, a.version));
+
+    if (matching.length === 0) {
+      return {
+        from,
+        reference,
+        status: 'unsatisfied',
+        availableVersions: candidates.map(a => a.version),
+      };
+    }
+
+    return {
+      from,
+      reference,
+      status: 'resolved',
+      artifactId: matching[0].id,
+      version: matching[0].version,
+    };
+  }
+
+  private require(artifactId: string): VersionedArtifact {
+    const artifact = this.artifacts.get(artifactId);
+    if (!artifact) {
+      throw new Error(`Artifact "${artifactId}" is not in the dependency graph`);
+    }
+    return artifact;
+  }
+
+  /**
+   * Walk resolved edges from an artifact in breadth-first order
+   */
+  private walk(artifactId: string, next: (id: string) => string[], transitive: boolean): string[] {
+    const result: string[] = [];
+    const visited = new Set<string>([artifactId]);
+    const queue = next(artifactId);
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      result.push(id);
+
+      if (transitive) {
+        queue.push(...next(id));
+      }
+    }
+
+    return result;
+  }
+
+  private dependencyIds(artifactId: string): string[] {
+    return (this.edges.get(artifactId) || []).filter(d => d.artifactId).map(d => d.artifactId!);
+  }
+
+  private dependentIds(artifactId: string): string[] {
+    return (this.reverse.get(artifactId) || []).map(d => d.from);
+  }
+
+  /**
+   * Get an artifact in the graph
+   */
+  getArtifact(artifactId: string): VersionedArtifact | undefined {
+    return this.artifacts.get(artifactId);
+  }
+
+  /**
+   * Get the resolution of every reference an artifact declares
+   */
+  getResolvedDependencies(artifactId: string): ResolvedDependency[] {
+    this.require(artifactId);
+    return this.edges.get(artifactId) || [];
+  }
+
+  /**
+   * Get the artifacts an artifact depends on
+   */
+  getDependencies(artifactId: string, options?: { transitive?: boolean }): VersionedArtifact[] {
+    this.require(artifactId);
+    return this.walk(artifactId, id => this.dependencyIds(id), !!options?.transitive)
+      .map(id => this.artifacts.get(id)!);
+  }
+
+  /**
+   * Get the artifacts that depend on an artifact, optionally only of one type
+   */
+  getDependents(
+    artifactId: string,
+    options?: { transitive?: boolean; type?: ArtifactType }
+  ): VersionedArtifact[] {
+    this.require(artifactId);
+    return this.walk(artifactId, id => this.dependentIds(id), !!options?.transitive)
+      .map(id => this.artifacts.get(id)!)
+      .filter(a => !options?.type || a.type === options.type);
+  }
+
+  /**
+   * Get every reference that could not be resolved
+   */
+  getUnresolved(): ResolvedDependency[] {
+    return Array.from(this.edges.values())
+      .flat()
+      .filter(d => d.status !== 'resolved');
+  }
+
+  /**
+   * Find dependency cycles. Each cycle is a list of artifact IDs in which
+   * every artifact (transitively) depends on the others.
+   */
+  findCycles(): string[][] {
+    // Tarjan's strongly connected components
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+
+      for (const next of this.dependencyIds(id)) {
+        if (!index.has(next)) {
+          visit(next);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.unshift(member);
+        } while (member !== id);
+
+        if (component.length > 1 || this.dependencyIds(id).includes(id)) {
+          cycles.push(component);
+        }
+      }
+    };
+
+    for (const id of this.artifacts.keys()) {
+      if (!index.has(id)) visit(id);
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Order artifacts so every artifact comes after its dependencies
+   */
+  topologicalOrder(): VersionedArtifact[] {
+    const cycles = this.findCycles();
+    if (cycles.length > 0) {
+      throw new Error(`Dependency cycle: ${this.describeCycle(cycles[0])}`);
+    }
+
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (id: string) => {
+      if (visited.has(id)) return;
+      visited.add(id);
+      this.dependencyIds(id).forEach(visit);
+      ordered.push(id);
+    };
+
+    Array.from(this.artifacts.keys()).forEach(visit);
+
+    return ordered.map(id => this.artifacts.get(id)!);
+  }
+
+  /**
+   * Describe a cycle as "a -> b -> a" using artifact names
+   */
+  describeCycle(cycle: string[]): string {
+    const names = cycle.map(id => this.artifacts.get(id)?.name || id);
+    return [...names, names[0]].join(' -> ');
+  }
+
+  /**
+   * Work out which dependents a move to a proposed version would affect,
+   * and which direct references it would no longer satisfy
+   */
+  analyzeImpact(artifactId: string, proposedVersion: string): DependencyImpact {
+    const artifact = this.require(artifactId);
+    const direct = new Set(this.dependentIds(artifactId));
+
+    const dependents = this.walk(artifactId, id => this.dependentIds(id), true).map(id => {
+      const dependent = this.artifacts.get(id)!;
+      const reference = direct.has(id)
+        ? this.reverse.get(artifactId)!.find(d => d.from === id)!.reference
+        : undefined;
+
+      return {
+        artifactId: id,
+        name: dependent.name,
+        type: dependent.type,
+        direct: direct.has(id),
+        reference,
+        satisfied: reference ? satisfies(proposedVersion, reference.range) : true,
+      };
+    });
+
+    return {
+      artifactId,
+      currentVersion: artifact.version,
+      proposedVersion,
+      dependents,
+      breaking: dependents.filter(d => !d.satisfied),
+    };
+  }
+}
@@ -0,0 +1,486 @@
+/**
+ * Agent Pipeline Versioning - Structural Diff Engine
+ *
+ * Computes JSON-path based differences between two versions of artifact
+ * content and emits Change records:
+ * - add / delete / modify for object keys and primitive values
+ * - move for array elements that changed position
+ * - nested objects and arrays are diffed recursively
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Change } from './types';
+
+/**
+ * A single step in a content path: object key or array index
+ */
+export type PathSegment = string | number;
+
+/**
+ * Root path of artifact content
+ */
+export const ROOT_PATH = '$';
+
+/**
+ * Keys used to track array elements across versions.
+ * Arrays whose elements all carry a unique value for one of these keys are
+ * matched by identity rather than by position.
+ */
+export const ARRAY_IDENTITY_KEYS = ['id', 'name'] as const;
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Format path segments as a JSON path, e.g. $.nodes[0].name
+ */
+export function formatPath(segments: PathSegment[]): string {
+  let path = ROOT_PATH;
+
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      path += `[${segment}]`;
+    } else if (IDENTIFIER_PATTERN.test(segment)) {
+      path += `.${segment}`;
+    } else {
+      path += `[${JSON.stringify(segment)}]`;
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Parse a JSON path produced by formatPath back into segments
+ */
+export function parsePath(path: string): PathSegment[] {
+  if (!path.startsWith(ROOT_PATH)) {
+    throw new Error(`Invalid path "${path}": must start with "${ROOT_PATH}"`);
+  }
+
+  const segments: PathSegment[] = [];
+  let i = ROOT_PATH.length;
+
+  while (i < path.length) {
+    if (path[i] === '.') {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(path.slice(i + 1));
+      if (!match) {
+        throw new Error(`Invalid path "${path}" at position ${i}`);
+      }
+      segments.push(match[0]);
+      i += 1 + match[0].length;
+    } else if (path[i] === '[') {
+      const end = findClosingBracket(path, i);
+      const inner = path.slice(i + 1, end);
+      segments.push(/^\d+$/.test(inner) ? Number(inner) : JSON.parse(inner));
+      i = end + 1;
+    } else {
+      throw new Error(`Invalid path "${path}" at position ${i}`);
+    }
+  }
+
+  return segments;
+}
+
+function findClosingBracket(path: string, start: number): number {
+  let inString = false;
+
+  for (let i = start + 1; i < path.length; i++) {
+    const char = path[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+
+  throw new Error(`Invalid path "${path}": unterminated "["`);
+}
+
+/**
+ * Check whether a path equals or is nested under another path
+ */
+export function isPathWithin(path: string, ancestor: string): boolean {
+  if (path === ancestor) return true;
+  if (!path.startsWith(ancestor)) return false;
+  const next = path[ancestor.length];
+  return next === '.' || next === '[';
+}
+
+/**
+ * Read the value at a path, or undefined if it does not exist
+ */
+export function getValueAtPath(content: any, path: string | PathSegment[]): any {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  let current = content;
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment as any];
+  }
+
+  return current;
+}
+
+// ============================================================================
+// Equality
+// ============================================================================
+
+/**
+ * Structural equality for JSON-compatible values
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+
+  const aKeys = Object.keys(a).filter(k => a[k] !== undefined);
+  const bKeys = Object.keys(b).filter(k => b[k] !== undefined);
+  if (aKeys.length !== bKeys.length) return false;
+
+  return aKeys.every(k => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Compute the changes that turn oldContent into newContent
+ */
+export function diffContent(oldContent: any, newContent: any): Change[] {
+  const changes: Change[] = [];
+  diffValue(oldContent, newContent, [], changes);
+  return changes;
+}
+
+function createChange(
+  type: Change['type'],
+  segments: PathSegment[],
+  oldValue: any,
+  newValue: any,
+  extra: Partial<Change> = {}
+): Change {
+  return {
+    id: uuidv4(),
+    type,
+    path: formatPath(segments),
+    oldValue,
+    newValue,
+    ...extra,
+  };
+}
+
+function diffValue(oldValue: any, newValue: any, segments: PathSegment[], changes: Change[]): void {
+  if (deepEqual(oldValue, newValue)) {
+    return;
+  }
+
+  if (oldValue === undefined) {
+    changes.push(createChange('add', segments, undefined, newValue));
+    return;
+  }
+
+  if (newValue === undefined) {
+    changes.push(createChange('delete', segments, oldValue, undefined));
+    return;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    diffArray(oldValue, newValue, segments, changes);
+    return;
+  }
+
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    diffObject(oldValue, newValue, segments, changes);
+    return;
+  }
+
+  changes.push(createChange('modify', segments, oldValue, newValue));
+}
+
+function diffObject(
+  oldValue: Record<string, any>,
+  newValue: Record<string, any>,
+  segments: PathSegment[],
+  changes: Change[]
+): void {
+  const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+
+  for (const key of keys) {
+    diffValue(oldValue[key], newValue[key], [...segments, key], changes);
+  }
+}
+
+/**
+ * Find a key that uniquely identifies every element of both arrays
+ */
+function findIdentityKey(oldValue: any[], newValue: any[]): string | undefined {
+  return ARRAY_IDENTITY_KEYS.find(key => {
+    for (const items of [oldValue, newValue]) {
+      const seen = new Set<any>();
+      for (const item of items) {
+        if (!isPlainObject(item)) return false;
+        const id = item[key];
+        if ((typeof id !== 'string' && typeof id !== 'number') || seen.has(id)) return false;
+        seen.add(id);
+      }
+    }
+    return oldValue.length > 0 && newValue.length > 0;
+  });
+}
+
+/**
+ * Match old array indices to new array indices
+ */
+function matchArrayElements(oldValue: any[], newValue: any[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const identityKey = findIdentityKey(oldValue, newValue);
+
+  if (identityKey) {
+    const newIndexById = new Map(newValue.map((item, j) => [item[identityKey], j]));
+    oldValue.forEach((item, i) => {
+      const j = newIndexById.get(item[identityKey]);
+      if (j !== undefined) matches.set(i, j);
+    });
+    return matches;
+  }
+
+  const usedNew = new Set<number>();
+
+  // Unchanged elements that stayed in place
+  oldValue.forEach((item, i) => {
+    if (i < newValue.length && deepEqual(item, newValue[i])) {
+      matches.set(i, i);
+      usedNew.add(i);
+    }
+  });
+
+  // Unchanged elements that moved
+  oldValue.forEach((item, i) => {
+    if (matches.has(i)) return;
+    const j = newValue.findIndex((candidate, idx) => !usedNew.has(idx) && deepEqual(item, candidate));
+    if (j !== -1) {
+      matches.set(i, j);
+      usedNew.add(j);
+    }
+  });
+
+  // Remaining elements at the same position are treated as modified in place
+  oldValue.forEach((_, i) => {
+    if (!matches.has(i) && i < newValue.length && !usedNew.has(i)) {
+      matches.set(i, i);
+      usedNew.add(i);
+    }
+  });
+
+  return matches;
+}
+
+function diffArray(oldValue: any[], newValue: any[], segments: PathSegment[], changes: Change[]): void {
+  const matches = matchArrayElements(oldValue, newValue);
+  const matchedNew = new Set(matches.values());
+
+  oldValue.forEach((item, i) => {
+    if (!matches.has(i)) {
+      changes.push(createChange('delete', [...segments, i], item, undefined));
+    }
+  });
+
+  for (const [i, j] of matches) {
+    if (i === j) {
+      diffValue(oldValue[i], newValue[j], [...segments, j], changes);
+    } else {
+      changes.push(createChange('move', [...segments, j], oldValue[i], newValue[j], {
+        fromPath: formatPath([...segments, i]),
+        description: `Moved from index ${i} to ${j}`,
+      }));
+    }
+  }
+
+  newValue.forEach((item, j) => {
+    if (!matchedNew.has(j)) {
+      changes.push(createChange('add', [...segments, j], undefined, item));
+    }
+  });
+}
+
+/**
+ * Summarize a change set by type
+ */
+export function summarizeChanges(changes: Change[]): Record<Change['type'], number> {
+  const summary: Record<Change['type'], number> = { add: 0, modify: 0, delete: 0, move: 0 };
+
+  for (const change of changes) {
+    summary[change.type]++;
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// Patching
+// ============================================================================
+
+/**
+ * Deep copy JSON-compatible content
+ */
+export function cloneContent<T>(content: T): T {
+  return content === undefined ? content : JSON.parse(JSON.stringify(content));
+}
+
+/**
+ * Return a copy of content with the value at a path replaced.
+ * Missing intermediate objects are created.
+ */
+export function setValueAtPath(content: any, path: string | PathSegment[], value: any): any {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  if (segments.length === 0) return cloneContent(value);
+
+  const result = cloneContent(content) ?? (typeof segments[0] === 'number' ? [] : {});
+  let current = result;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+    }
+    current = current[segment];
+  }
+
+  const last = segments[segments.length - 1];
+  if (value === undefined) {
+    removeInPlace(current, last);
+  } else {
+    current[last] = cloneContent(value);
+  }
+
+  return result;
+}
+
+function removeInPlace(container: any, segment: PathSegment): void {
+  if (container === null || typeof container !== 'object') return;
+  if (Array.isArray(container) && typeof segment === 'number') {
+    container.splice(segment, 1);
+  } else {
+    delete container[segment as any];
+  }
+}
+
+function insertInPlace(container: any, segment: PathSegment, value: any): void {
+  if (Array.isArray(container) && typeof segment === 'number') {
+    container.splice(segment, 0, cloneContent(value));
+  } else {
+    container[segment as any] = cloneContent(value);
+  }
+}
+
+function comparePaths(a: PathSegment[], b: PathSegment[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') {
+      return (a[i] as number) - (b[i] as number);
+    }
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Apply a change set produced by diffContent to content.
+ *
+ * Modifications are applied first, then removals (deletes and the source
+ * side of moves) from the highest index down, then insertions (adds and the
+ * target side of moves) from the lowest index up. This reproduces the new
+ * content exactly when applied to the content the diff was taken from.
+ */
+export function applyChanges(content: any, changes: Change[]): any {
+  let result = cloneContent(content);
+
+  for (const change of changes) {
+    if (change.type === 'modify') {
+      result = setValueAtPath(result, change.path, change.newValue);
+    }
+  }
+
+  const removals = changes
+    .filter(c => c.type === 'delete' || c.type === 'move')
+    .map(c => parsePath(c.type === 'move' ? c.fromPath! : c.path))
+    .sort((a, b) => comparePaths(b, a));
+
+  for (const segments of removals) {
+    if (segments.length === 0) {
+      result = undefined;
+    } else {
+      removeInPlace(getValueAtPath(result, segments.slice(0, -1)), segments[segments.length - 1]);
+    }
+  }
+
+  const insertions = changes
+    .filter(c => c.type === 'add' || c.type === 'move')
+    .map(c => ({ segments: parsePath(c.path), value: c.newValue }))
+    .sort((a, b) => comparePaths(a.segments, b.segments));
+
+  for (const { segments, value } of insertions) {
+    if (segments.length === 0) {
+      result = cloneContent(value);
+      continue;
+    }
+
+    const parentPath = segments.slice(0, -1);
+    if (getValueAtPath(result, parentPath) === undefined) {
+      result = setValueAtPath(result, parentPath, typeof segments[segments.length - 1] === 'number' ? [] : {});
+    }
+    insertInPlace(getValueAtPath(result, parentPath), segments[segments.length - 1], value);
+  }
+
+  return result;
+}
+
+/**
+ * Invert a change set so that applying it undoes the original changes
+ */
+export function invertChanges(changes: Change[]): Change[] {
+  return changes.map(change => {
+    const inverted: Change = {
+      ...change,
+      id: uuidv4(),
+      oldValue: change.newValue,
+      newValue: change.oldValue,
+    };
+
+    switch (change.type) {
+      case 'add':
+        inverted.type = 'delete';
+        break;
+      case 'delete':
+        inverted.type = 'add';
+        break;
+      case 'move':
+        inverted.path = change.fromPath!;
+        inverted.fromPath = change.path;
+        break;
+    }
+
+    return inverted;
+  });
+}
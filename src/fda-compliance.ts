@@ -21,6 +21,7 @@ import {
 } from './types';
 import { sha256 } from './crypto';
 import { AuditLogService, AUDIT_ACTIONS } from './audit';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
 
 /**
  * Requirement for traceability
@@ -56,16 +57,25 @@ export interface DesignControlGate {
  * FDA Compliance Service
  */
 export class FDAComplianceService {
-  private riskAssessments: Map<string, RiskAssessment> = new Map();
-  private pullRequests: Map<string, PullRequest> = new Map();
-  private testReports: Map<string, TestReport> = new Map();
-  private requirements: Map<string, Requirement> = new Map();
-  private designControlGates: Map<string, DesignControlGate> = new Map();
+  private riskAssessments: StorageCollection<RiskAssessment>;
+  private pullRequests: StorageCollection<PullRequest>;
+  private testReports: StorageCollection<TestReport>;
+  private requirements: StorageCollection<Requirement>;
+  private designControlGates: StorageCollection<DesignControlGate>;
   private auditLog: AuditLogService;
   
-  constructor(auditLog: AuditLogService) {
+  constructor(auditLog: AuditLogService, storage: StorageAdapter = new MemoryStorageAdapter()) {
     this.auditLog = auditLog;
-    this.initializeDefaultGates();
+    this.riskAssessments = new StorageCollection(storage, STORAGE_COLLECTIONS.RISK_ASSESSMENTS);
+    this.pullRequests = new StorageCollection(storage, STORAGE_COLLECTIONS.PULL_REQUESTS);
+    this.testReports = new StorageCollection(storage, STORAGE_COLLECTIONS.TEST_REPORTS);
+    this.requirements = new StorageCollection(storage, STORAGE_COLLECTIONS.REQUIREMENTS);
+    this.designControlGates = new StorageCollection(storage, STORAGE_COLLECTIONS.DESIGN_CONTROL_GATES);
+    
+    // Storage that already holds gates is reopened as is
+    if (this.designControlGates.size === 0) {
+      this.initializeDefaultGates();
+    }
   }
   
   /**
@@ -190,6 +200,7 @@ export class FDAComplianceService {
     }
     
     assessment.approvedBy = approvedBy;
+    this.riskAssessments.set(assessmentId, assessment);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.RISK_ASSESSMENT_APPROVED,
@@ -300,6 +311,7 @@ export class FDAComplianceService {
       signature,
     });
     pr.updatedAt = new Date();
+    this.pullRequests.set(prId, pr);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.PR_APPROVED,
@@ -329,6 +341,7 @@ export class FDAComplianceService {
     pr.status = 'merged';
     pr.mergedAt = new Date();
     pr.updatedAt = new Date();
+    this.pullRequests.set(prId, pr);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.PR_MERGED,
@@ -344,6 +357,13 @@ export class FDAComplianceService {
     return pr;
   }
   
+  /**
+   * Get pull request by ID
+   */
+  getPullRequest(prId: string): PullRequest | undefined {
+    return this.pullRequests.get(prId);
+  }
+  
   /**
    * Get pull requests
    */
@@ -513,6 +533,7 @@ export class FDAComplianceService {
     
     if (!requirement.linkedArtifacts.includes(artifactId)) {
       requirement.linkedArtifacts.push(artifactId);
+      this.requirements.set(requirementId, requirement);
     }
   }
   
@@ -545,6 +566,7 @@ export class FDAComplianceService {
     gate.approvedBy = approvedBy;
     gate.approvedAt = new Date();
     gate.notes = notes;
+    this.designControlGates.set(gateId, gate);
     
     await this.auditLog.log({
       action: 'DESIGN_GATE_APPROVED',
@@ -641,15 +663,27 @@ export class FDAComplianceService {
     }, null, 2);
   }
   
-  static deserialize(data: string, auditLog: AuditLogService): FDAComplianceService {
+  static deserialize(data: string, auditLog: AuditLogService, storage?: StorageAdapter): FDAComplianceService {
     const parsed = JSON.parse(data);
-    const service = new FDAComplianceService(auditLog);
+    const service = new FDAComplianceService(auditLog, storage);
+    
+    const date = (value: any) => value ? new Date(value) : undefined;
+    const load = <T>(collection: StorageCollection<T>, entries: [string, any][], revive: (record: any) => T) => {
+      collection.clear();
+      entries.forEach(([id, record]) => collection.set(id, revive(record)));
+    };
     
-    service.riskAssessments = new Map(parsed.riskAssessments);
-    service.pullRequests = new Map(parsed.pullRequests);
-    service.testReports = new Map(parsed.testReports);
-    service.requirements = new Map(parsed.requirements);
-    service.designControlGates = new Map(parsed.designControlGates);
+    load(service.riskAssessments, parsed.riskAssessments, r => ({ ...r, assessedAt: date(r.assessedAt) }));
+    load(service.pullRequests, parsed.pullRequests, pr => ({
+      ...pr,
+      approvals: pr.approvals.map((a: any) => ({ ...a, approvedAt: date(a.approvedAt) })),
+      createdAt: date(pr.createdAt),
+      updatedAt: date(pr.updatedAt),
+      mergedAt: date(pr.mergedAt),
+    }));
+    load(service.testReports, parsed.testReports, r => ({ ...r, executedAt: date(r.executedAt) }));
+    load(service.requirements, parsed.requirements, r => ({ ...r, createdAt: date(r.createdAt) }));
+    load(service.designControlGates, parsed.designControlGates, g => ({ ...g, approvedAt: date(g.approvedAt) }));
     
     return service;
   }
@@ -0,0 +1,170 @@
+/**
+ * Agent Pipeline Versioning - Lifecycle Hooks
+ *
+ * Lets policies run around repository operations without patching them:
+ * - Pre-hooks see the operation before anything changes and may veto it
+ *   with a reason (e.g. prompt-injection linting, PHI scanning, naming rules)
+ * - Post-hooks receive the final object once the operation has completed
+ * Hooks run in registration order and must not modify what they receive.
+ */
+
+import { VersionedArtifact, Commit, Branch, PullRequest, Rollback } from './types';
+import { DesignControlGate } from './fda-compliance';
+import { MergeResult } from './merge';
+
+/**
+ * What pre-hooks (and post-hooks) see of each operation
+ */
+export interface HookContexts {
+  commit: { branch: string; artifacts: VersionedArtifact[]; message: string; author: string }; // Every commit made or imported
+  createBranch: { name: string; baseBranch?: string; createdBy: string };
+  deleteBranch: { branch: Branch; deletedBy: string };
+  merge: { sourceBranch: string; targetBranch: string; mergedBy: string }; // Also inside mergePullRequest
+  mergePullRequest: { pullRequest: PullRequest; mergedBy: string };
+  rollback: { targetVersion: string; commitId?: string; branch?: string; reason: string; initiatedBy: string };
+  approveGate: { gate: DesignControlGate; approvedBy: string; notes?: string };
+  deleteArtifact: { artifact: VersionedArtifact; deletedBy: string; reason?: string };
+}
+
+/**
+ * The final object each operation hands to post-hooks
+ */
+export interface HookResults {
+  commit: Commit;
+  createBranch: Branch;
+  deleteBranch: Branch; // The branch as it was before deletion
+  merge: MergeResult;
+  mergePullRequest: PullRequest;
+  rollback: Rollback;
+  approveGate: DesignControlGate;
+  deleteArtifact: VersionedArtifact; // The tombstone
+}
+
+export type HookOperation = keyof HookContexts;
+
+/**
+ * A pre-hook's decision. Returning nothing allows the operation.
+ */
+export type HookVerdict = { allow: true } | { allow: false; reason: string };
+
+/**
+ * A hook on one repository operation
+ */
+export interface LifecycleHook<O extends HookOperation = HookOperation> {
+  id: string;
+  operation: O;
+  description?: string;
+  before?(context: HookContexts[O]): HookVerdict | void | Promise<HookVerdict | void>;
+  after?(result: HookResults[O], context: HookContexts[O]): void | Promise<void>;
+}
+
+/**
+ * Why an operation was vetoed
+ */
+export interface HookRejection {
+  hookId: string;
+  operation: HookOperation;
+  reason: string;
+}
+
+/**
+ * A post-hook that threw. The operation itself has already completed.
+ */
+export interface HookFailure {
+  hookId: string;
+  operation: HookOperation;
+  error: string;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Hook Registry - Holds the lifecycle hooks of a repository
+ */
+export class HookRegistry {
+  private hooks: Map<string, LifecycleHook<any>> = new Map();
+
+  constructor(hooks: LifecycleHook<any>[] = []) {
+    for (const hook of hooks) {
+      this.register(hook);
+    }
+  }
+
+  /**
+   * Register a hook, replacing any hook with the same ID
+   */
+  register<O extends HookOperation>(hook: LifecycleHook<O>): void {
+    this.hooks.set(hook.id, hook);
+  }
+
+  /**
+   * Remove a hook
+   */
+  unregister(hookId: string): boolean {
+    return this.hooks.delete(hookId);
+  }
+
+  /**
+   * Get hooks, optionally only those on one operation
+   */
+  getHooks<O extends HookOperation>(operation?: O): LifecycleHook<O>[] {
+    const hooks = Array.from(this.hooks.values());
+    return operation ? hooks.filter(h => h.operation === operation) : hooks;
+  }
+
+  /**
+   * Run the pre-hooks of an operation. The first veto wins; a pre-hook
+   * that throws vetoes too, so a failing check never lets an operation
+   * through.
+   */
+  async runBefore<O extends HookOperation>(
+    operation: O,
+    context: HookContexts[O]
+  ): Promise<HookRejection | undefined> {
+    for (const hook of this.getHooks(operation)) {
+      if (!hook.before) continue;
+
+      try {
+        const verdict = await hook.before(context);
+        if (verdict && !verdict.allow) {
+          return { hookId: hook.id, operation, reason: verdict.reason };
+        }
+      } catch (error) {
+        return { hookId: hook.id, operation, reason: `Hook failed: ${errorMessage(error)}` };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run the post-hooks of an operation. Every hook runs; failures are
+   * collected rather than thrown because the operation has already happened.
+   */
+  async runAfter<O extends HookOperation>(
+    operation: O,
+    result: HookResults[O],
+    context: HookContexts[O]
+  ): Promise<HookFailure[]> {
+    const failures: HookFailure[] = [];
+
+    for (const hook of this.getHooks(operation)) {
+      if (!hook.after) continue;
+
+      try {
+        await hook.after(result, context);
+      } catch (error) {
+        failures.push({ hookId: hook.id, operation, error: errorMessage(error) });
+      }
+    }
+
+    return failures;
+  }
+}
+
+/**
+ * Create a hook registry
+ */
+export function createHookRegistry(hooks: LifecycleHook<any>[] = []): HookRegistry {
+  return new HookRegistry(hooks);
+}
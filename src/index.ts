@@ -10,9 +10,64 @@ export * from './types';
 // Crypto utilities
 export * from './crypto';
 
+// Storage adapters
+export * from './storage';
+export * from './repository-layout';
+
+// Serialization format and migrations
+export * from './serialization';
+
+// Repository bundles
+export * from './bundle';
+
+// Remotes
+export * from './remote';
+
+// Content-addressable object store
+export * from './object-store';
+
+// Structural diff engine
+export * from './diff';
+
+// Artifact content schemas
+export * from './content-schemas';
+
+// Workflow graph validation
+export * from './workflow-graph';
+
+// Prompt templates
+export * from './prompt-template';
+
+// Tool contract compatibility
+export * from './tool-compatibility';
+
+// Semantic version detection
+export * from './version-rules';
+
+// Version ranges
+export * from './semver';
+
+// Artifact queries
+export * from './query';
+
+// Artifact dependencies
+export * from './dependencies';
+
+// Workflow lockfiles
+export * from './lockfile';
+
+// Commit graph traversal
+export * from './commit-graph';
+
+// Three-way merge
+export * from './merge';
+
 // Branching model
 export * from './branching';
 
+// Tags and releases
+export * from './tags';
+
 // Audit logging
 export * from './audit';
 
@@ -22,5 +77,8 @@ export * from './rollback';
 // FDA compliance
 export * from './fda-compliance';
 
+// Lifecycle hooks
+export * from './hooks';
+
 // Repository (main entry point)
 export * from './repository';
@@ -0,0 +1,144 @@
+/**
+ * Agent Pipeline Versioning - Workflow Lockfiles
+ *
+ * Pins the full artifact set a workflow resolves to:
+ * - Every transitive dependency with its version and content hash
+ * - An integrity hash over the locked set
+ * - Verification of a deployed artifact set against its lock
+ */
+
+import { Lockfile, LockfileSchema, LockedArtifact } from './types';
+import { DependencyGraph, formatDependencyReference } from './dependencies';
+import { sha256 } from './crypto';
+
+/**
+ * Object-store addresses of a committed artifact
+ */
+export interface ArtifactHashes {
+  contentHash: string;
+  artifactHash: string;
+}
+
+/**
+ * A locked artifact that no longer matches what is deployed
+ */
+export interface LockfileMismatch {
+  artifactId: string;
+  name: string;
+  reason: 'missing' | 'version-changed' | 'content-changed';
+  expected: string;
+  actual?: string;
+}
+
+/**
+ * Result of verifying an artifact set against a lockfile
+ */
+export interface LockfileVerification {
+  valid: boolean;
+  integrityValid: boolean;
+  mismatches: LockfileMismatch[];
+}
+
+/**
+ * Hash over the locked artifacts, in artifact ID order
+ */
+export function lockfileIntegrity(artifacts: Lockfile['artifacts']): string {
+  const ordered = Object.keys(artifacts).sort().map(id => artifacts[id]);
+  return sha256(ordered);
+}
+
+/**
+ * Generate the lockfile for a workflow. Every transitive dependency must
+ * resolve and have committed hashes.
+ */
+export function generateLockfile(
+  graph: DependencyGraph,
+  workflowId: string,
+  lookupHashes: (artifactId: string) => ArtifactHashes | undefined
+): Lockfile {
+  const workflow = graph.getDependencies(workflowId, { transitive: true });
+  const ids = [workflowId, ...workflow.map(a => a.id)];
+  const root = graph.getArtifact(workflowId)!;
+
+  for (const cycle of graph.findCycles()) {
+    if (cycle.some(id => ids.includes(id))) {
+      throw new Error(`Cannot lock "${root.name}": dependency cycle ${graph.describeCycle(cycle)}`);
+    }
+  }
+
+  const artifacts: Lockfile['artifacts'] = {};
+
+  for (const id of ids) {
+    const artifact = graph.getArtifact(id)!;
+    const hashes = lookupHashes(id);
+
+    if (!hashes) {
+      throw new Error(`Cannot lock "${root.name}": "${artifact.name}" has not been committed`);
+    }
+
+    const dependencies: LockedArtifact['dependencies'] = {};
+
+    for (const dependency of graph.getResolvedDependencies(id)) {
+      const reference = formatDependencyReference(dependency.reference);
+      if (dependency.status !== 'resolved') {
+        throw new Error(`Cannot lock "${root.name}": dependency "${reference}" of "${artifact.name}" is ${dependency.status}`);
+      }
+      dependencies[reference] = dependency.artifactId!;
+    }
+
+    artifacts[id] = {
+      artifactId: id,
+      name: artifact.name,
+      type: artifact.type,
+      version: artifact.version,
+      contentHash: hashes.contentHash,
+      artifactHash: hashes.artifactHash,
+      dependencies,
+    };
+  }
+
+  const lockfile: Lockfile = {
+    lockfileVersion: 1,
+    workflow: { artifactId: root.id, name: root.name, version: root.version },
+    artifacts,
+    integrity: lockfileIntegrity(artifacts),
+    generatedAt: new Date(),
+  };
+
+  const validated = LockfileSchema.safeParse(lockfile);
+  if (!validated.success) {
+    throw new Error(`Invalid lockfile: ${validated.error.message}`);
+  }
+
+  return lockfile;
+}
+
+/**
+ * Verify that deployed artifacts still match a lockfile
+ */
+export function verifyLockfile(
+  lockfile: Lockfile,
+  lookupDeployed: (artifactId: string) => { version: string; contentHash: string } | undefined
+): LockfileVerification {
+  const integrityValid = lockfileIntegrity(lockfile.artifacts) === lockfile.integrity;
+  const mismatches: LockfileMismatch[] = [];
+
+  for (const locked of Object.values(lockfile.artifacts)) {
+    const deployed = lookupDeployed(locked.artifactId);
+    const base = { artifactId: locked.artifactId, name: locked.name };
+
+    if (!deployed) {
+      mismatches.push({ ...base, reason: 'missing', expected: locked.contentHash });
+    } else if (deployed.version !== locked.version) {
+      mismatches.push({ ...base, reason: 'version-changed', expected: locked.version, actual: deployed.version });
+    } else if (deployed.contentHash !== locked.contentHash) {
+      mismatches.push({ ...base, reason: 'content-changed', expected: locked.contentHash, actual: deployed.contentHash });
+    }
+  }
+
+  return {
+    valid: integrityValid && mismatches.length === 0,
+    integrityValid,
+    mismatches,
+  };
+}
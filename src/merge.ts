@@ -0,0 +1,243 @@
+/**
+ * Agent Pipeline Versioning - Three-Way Merge
+ *
+ * Merges artifact content from two branches against their merge-base:
+ * - Changes to non-overlapping JSON paths are merged automatically
+ * - Overlapping edits produce structured conflict records
+ * - Conflicts are resolved by picking a side or supplying a value
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Change, Commit, VersionedArtifact } from './types';
+import {
+  diffContent,
+  applyChanges,
+  deepEqual,
+  getValueAtPath,
+  setValueAtPath,
+  isPathWithin,
+  parsePath,
+  formatPath,
+} from './diff';
+
+/**
+ * How a conflict was (or should be) resolved
+ */
+export type ConflictResolution =
+  | 'ours'
+  | 'theirs'
+  | 'base'
+  | { value: any };
+
+/**
+ * An overlapping edit that could not be merged automatically
+ */
+export interface MergeConflict {
+  id: string;
+  artifactId: string;
+  path: string;
+  base: any;
+  ours: any;
+  theirs: any;
+  resolved: boolean;
+  resolution?: ConflictResolution;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  deleted?: 'ours' | 'theirs'; // Delete/modify conflict: the side that deleted the artifact
+}
+
+/**
+ * A merge waiting for its conflicts to be resolved
+ */
+export interface PendingMerge {
+  id: string;
+  sourceBranch: string;
+  targetBranch: string;
+  sourceHead: string;
+  targetHead: string | null;
+  mergeBase: string | null;
+  pullRequestId?: string;
+  message: string;
+  tree: Record<string, string>; // Target tree with one-sided changes applied
+  artifacts: Record<string, {
+    ours: VersionedArtifact;
+    theirs: VersionedArtifact;
+    merged: any;
+  }>;
+  conflicts: MergeConflict[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Outcome of merging one branch into another
+ */
+export interface MergeResult {
+  status: 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+  commit?: Commit;
+  mergeId?: string;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Outcome of cherry-picking or reverting a commit
+ */
+export interface CherryPickResult {
+  status: 'applied' | 'empty' | 'conflicts';
+  commit?: Commit;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Result of merging a single piece of content
+ */
+export interface ContentMergeResult {
+  merged: any;
+  conflicts: Array<Pick<MergeConflict, 'path' | 'base' | 'ours' | 'theirs'>>;
+}
+
+/**
+ * The path a change affects for overlap detection.
+ * Structural array changes (adds, deletes, moves of elements) shift indices,
+ * so they claim the whole array.
+ */
+function changeScope(change: Change): string {
+  const segments = parsePath(change.path);
+  const last = segments[segments.length - 1];
+
+  if (change.type !== 'modify' && typeof last === 'number') {
+    return formatPath(segments.slice(0, -1));
+  }
+
+  return change.path;
+}
+
+function overlaps(a: string, b: string): boolean {
+  return isPathWithin(a, b) || isPathWithin(b, a);
+}
+
+function isSameChange(a: Change, b: Change): boolean {
+  return a.type === b.type &&
+    a.path === b.path &&
+    a.fromPath === b.fromPath &&
+    deepEqual(a.newValue, b.newValue);
+}
+
+/**
+ * Three-way merge of content. Conflicting regions keep "ours" in the
+ * merged result until they are resolved.
+ */
+export function mergeContent(base: any, ours: any, theirs: any): ContentMergeResult {
+  if (deepEqual(ours, theirs) || deepEqual(base, theirs)) {
+    return { merged: ours, conflicts: [] };
+  }
+
+  if (deepEqual(base, ours)) {
+    return { merged: theirs, conflicts: [] };
+  }
+
+  const ourChanges = diffContent(base, ours);
+  const theirChanges = diffContent(base, theirs);
+  const conflictPaths: string[] = [];
+
+  for (const their of theirChanges) {
+    const theirScope = changeScope(their);
+
+    for (const our of ourChanges) {
+      if (isSameChange(our, their)) continue;
+
+      const ourScope = changeScope(our);
+      if (overlaps(ourScope, theirScope)) {
+        conflictPaths.push(ourScope.length <= theirScope.length ? ourScope : theirScope);
+      }
+    }
+  }
+
+  // Keep only the outermost conflicting regions
+  const regions = Array.from(new Set(conflictPaths))
+    .filter((path, _, all) => !all.some(other => other !== path && isPathWithin(path, other)));
+
+  const applicable = theirChanges.filter(change =>
+    !ourChanges.some(our => isSameChange(our, change)) &&
+    !regions.some(region => overlaps(changeScope(change), region))
+  );
+
+  return {
+    merged: applyChanges(ours, applicable),
+    conflicts: regions.map(path => ({
+      path,
+      base: getValueAtPath(base, path),
+      ours: getValueAtPath(ours, path),
+      theirs: getValueAtPath(theirs, path),
+    })),
+  };
+}
+
+/**
+ * Create conflict records for an artifact
+ */
+export function createConflicts(
+  artifactId: string,
+  conflicts: ContentMergeResult['conflicts']
+): MergeConflict[] {
+  return conflicts.map(conflict => ({
+    id: uuidv4(),
+    artifactId,
+    ...conflict,
+    resolved: false,
+  }));
+}
+
+/**
+ * Create the conflict for an artifact deleted on one side and edited on the
+ * other. It covers the whole content; the deleting side has no value.
+ * Resolving to the deleting side keeps the deletion.
+ */
+export function createDeleteConflict(
+  artifactId: string,
+  deleted: 'ours' | 'theirs',
+  base: any,
+  ours: VersionedArtifact,
+  theirs: VersionedArtifact
+): MergeConflict {
+  return {
+    id: uuidv4(),
+    artifactId,
+    path: '$',
+    base,
+    ours: deleted === 'ours' ? undefined : ours.content,
+    theirs: deleted === 'theirs' ? undefined : theirs.content,
+    deleted,
+    resolved: false,
+  };
+}
+
+/**
+ * Get the value a resolution selects for a conflict
+ */
+export function resolveConflictValue(conflict: MergeConflict, resolution: ConflictResolution): any {
+  switch (resolution) {
+    case 'ours':
+      return conflict.ours;
+    case 'theirs':
+      return conflict.theirs;
+    case 'base':
+      return conflict.base;
+    default:
+      return resolution.value;
+  }
+}
+
+/**
+ * Apply resolved conflicts to merged content
+ */
+export function applyResolutions(content: any, conflicts: MergeConflict[]): any {
+  let result = content;
+
+  for (const conflict of conflicts) {
+    if (!conflict.resolved || !conflict.resolution) continue;
+    result = setValueAtPath(result, conflict.path, resolveConflictValue(conflict, conflict.resolution));
+  }
+
+  return result;
+}
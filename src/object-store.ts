@@ -0,0 +1,139 @@
+/**
+ * Agent Pipeline Versioning - Content-Addressable Object Store
+ *
+ * Stores immutable, deduplicated content blobs keyed by their content hash.
+ * Commits reference blobs by hash, so every historical version of an
+ * artifact can be read back exactly as it was committed.
+ */
+
+import { contentHash } from './crypto';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
+
+/**
+ * Object Store - Immutable blob storage addressed by content hash
+ */
+export class ObjectStore {
+  private objects: StorageCollection<string>;
+
+  constructor(storage: StorageAdapter = new MemoryStorageAdapter()) {
+    this.objects = new StorageCollection(storage, STORAGE_COLLECTIONS.OBJECTS);
+  }
+
+  /**
+   * Serialize content into its canonical blob form
+   */
+  static toBlob(content: any): string {
+    return JSON.stringify(content === undefined ? null : content);
+  }
+
+  /**
+   * Compute the address a piece of content would be stored under.
+   * The hash is taken over the blob so that a string and an object with
+   * the same JSON text never share an address.
+   */
+  static hashOf(content: any): string {
+    return contentHash(ObjectStore.toBlob(content));
+  }
+
+  /**
+   * Store content and return its hash. Identical content is stored once.
+   */
+  put(content: any): string {
+    const blob = ObjectStore.toBlob(content);
+    const hash = contentHash(blob);
+
+    if (!this.objects.has(hash)) {
+      this.objects.set(hash, blob);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Store a raw blob, e.g. one received from another repository, and
+   * return its hash
+   */
+  putBlob(blob: string): string {
+    const hash = contentHash(blob);
+
+    if (!this.objects.has(hash)) {
+      this.objects.set(hash, blob);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Read content back by hash
+   */
+  get<T = any>(hash: string): T | undefined {
+    const blob = this.objects.get(hash);
+    return blob === undefined ? undefined : JSON.parse(blob);
+  }
+
+  /**
+   * Read the raw stored blob by hash
+   */
+  getBlob(hash: string): string | undefined {
+    return this.objects.get(hash);
+  }
+
+  /**
+   * Check if an object exists
+   */
+  has(hash: string): boolean {
+    return this.objects.has(hash);
+  }
+
+  /**
+   * Remove an object. Only used to purge content past its retention period.
+   */
+  delete(hash: string): boolean {
+    return this.objects.delete(hash);
+  }
+
+  /**
+   * Verify that a stored blob still matches its address
+   */
+  verify(hash: string): boolean {
+    const blob = this.objects.get(hash);
+    return blob !== undefined && contentHash(blob) === hash;
+  }
+
+  /**
+   * Number of stored objects
+   */
+  size(): number {
+    return this.objects.size;
+  }
+
+  /**
+   * List all object hashes
+   */
+  listHashes(): string[] {
+    return this.objects.keys();
+  }
+
+  /**
+   * Serialize objects for storage
+   */
+  serialize(): string {
+    return JSON.stringify({
+      objects: Array.from(this.objects.entries()),
+    }, null, 2);
+  }
+
+  /**
+   * Deserialize objects from storage
+   */
+  static deserialize(data: string, storage?: StorageAdapter): ObjectStore {
+    const parsed = JSON.parse(data);
+    const store = new ObjectStore(storage);
+
+    for (const [hash, blob] of parsed.objects as [string, string][]) {
+      store.objects.set(hash, blob);
+    }
+
+    return store;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Agent Pipeline Versioning - Prompt Templates
+ *
+ * Treats prompt content as a template with declared variables:
+ * - Extracts {{placeholder}} names from template text
+ * - Renders templates, failing on missing or unknown variables
+ * - Diffs the variables of two prompt versions
+ */
+
+/**
+ * A declared prompt variable
+ */
+export interface PromptVariable {
+  name: string;
+  required: boolean;
+  default?: any;
+  description?: string;
+}
+
+/**
+ * Prompt artifact content
+ */
+export interface PromptTemplate {
+  template: string;
+  variables?: Array<string | { name: string; required?: boolean; default?: any; description?: string }>;
+}
+
+/**
+ * Variable changes between two prompt versions
+ */
+export interface PromptVariableDiff {
+  added: PromptVariable[];
+  removed: PromptVariable[];
+  becameRequired: string[];
+  becameOptional: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+/**
+ * Extract placeholder names from template text, in order of first use
+ */
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>();
+
+  for (const match of (template || '').matchAll(PLACEHOLDER)) {
+    names.add(match[1]);
+  }
+
+  return Array.from(names);
+}
+
+/**
+ * Get a prompt's variables. The declared list is authoritative; without
+ * one, every placeholder in the template is a required variable.
+ */
+export function getPromptVariables(content: any): PromptVariable[] {
+  const declared: any[] = Array.isArray(content?.variables) ? content.variables : [];
+
+  if (declared.length === 0) {
+    return extractVariables(content?.template).map(name => ({ name, required: true }));
+  }
+
+  const variables: PromptVariable[] = [];
+
+  for (const variable of declared) {
+    if (typeof variable === 'string') {
+      variables.push({ name: variable, required: true });
+    } else if (variable && typeof variable.name === 'string') {
+      variables.push({
+        name: variable.name,
+        required: variable.required !== false && variable.default === undefined,
+        ...(variable.default !== undefined && { default: variable.default }),
+        ...(variable.description !== undefined && { description: variable.description }),
+      });
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Check that template placeholders and declared variables agree
+ */
+export function validatePromptTemplate(content: any): { undeclared: string[]; unused: string[] } {
+  const placeholders = extractVariables(content?.template);
+  const declared = getPromptVariables(content).map(v => v.name);
+
+  return {
+    undeclared: placeholders.filter(name => !declared.includes(name)),
+    unused: declared.filter(name => !placeholders.includes(name)),
+  };
+}
+
+function quoteAll(names: string[]): string {
+  return names.map(n => `"${n}"`).join(', ');
+}
+
+/**
+ * Render a prompt template. Fails if a required variable has no value,
+ * a value is given for an undeclared variable, or the template uses a
+ * placeholder that is not declared.
+ */
+export function renderPrompt(content: any, values: Record<string, any>): string {
+  const variables = getPromptVariables(content);
+  const declared = new Map(variables.map(v => [v.name, v]));
+  const { undeclared } = validatePromptTemplate(content);
+
+  if (undeclared.length > 0) {
+    throw new Error(`Template uses undeclared variable(s) ${quoteAll(undeclared)}`);
+  }
+
+  const missing = variables
+    .filter(v => v.required && values[v.name] === undefined)
+    .map(v => v.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing value(s) for prompt variable(s) ${quoteAll(missing)}`);
+  }
+
+  const extra = Object.keys(values).filter(name => !declared.has(name));
+  if (extra.length > 0) {
+    throw new Error(`Unknown prompt variable(s) ${quoteAll(extra)}`);
+  }
+
+  return (content.template as string).replace(PLACEHOLDER, (_, name: string) => {
+    const value = values[name] !== undefined ? values[name] : declared.get(name)!.default;
+    if (value === undefined) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * Diff the variables of two prompt versions
+ */
+export function diffPromptVariables(oldContent: any, newContent: any): PromptVariableDiff {
+  const before = new Map(getPromptVariables(oldContent).map(v => [v.name, v]));
+  const after = new Map(getPromptVariables(newContent).map(v => [v.name, v]));
+  const diff: PromptVariableDiff = { added: [], removed: [], becameRequired: [], becameOptional: [] };
+
+  for (const [name, variable] of before) {
+    if (!after.has(name)) diff.removed.push(variable);
+  }
+
+  for (const [name, variable] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      diff.added.push(variable);
+    } else if (!previous.required && variable.required) {
+      diff.becameRequired.push(name);
+    } else if (previous.required && !variable.required) {
+      diff.becameOptional.push(name);
+    }
+  }
+
+  return diff;
+}
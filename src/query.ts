@@ -0,0 +1,222 @@
+/**
+ * Agent Pipeline Versioning - Artifact Queries
+ *
+ * Filters, sorts and pages artifacts:
+ * - AND/OR/NOT expressions over tags
+ * - Metadata key/value matching, including nested keys
+ * - Semver range filters on version and date ranges on timestamps
+ * - Full-text search over name, description and content
+ */
+
+import { ArtifactType, VersionedArtifact, compareVersions } from './types';
+import { satisfies } from './semver';
+
+/**
+ * Boolean expression over tags. A string matches artifacts carrying that tag.
+ */
+export type TagExpression =
+  | string
+  | { and: TagExpression[] }
+  | { or: TagExpression[] }
+  | { not: TagExpression };
+
+/**
+ * Matches one metadata value. Plain values match by equality.
+ */
+export type MetadataMatcher =
+  | string
+  | number
+  | boolean
+  | null
+  | { exists: boolean }
+  | { in: any[] }
+  | { pattern: RegExp };
+
+/**
+ * Inclusive date range; either end may be open
+ */
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export type ArtifactSortField = 'name' | 'type' | 'version' | 'createdAt' | 'updatedAt';
+
+export interface ArtifactSort {
+  field: ArtifactSortField;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Artifact query. Every given criterion must match.
+ */
+export interface ArtifactQuery {
+  type?: ArtifactType | ArtifactType[];
+  name?: string | RegExp;
+  tags?: TagExpression;
+  metadata?: Record<string, MetadataMatcher>; // Dotted keys reach nested values
+  version?: string; // Semver range, e.g. "^2.0.0"
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  text?: string; // Every whitespace-separated term must appear
+  includeDeleted?: boolean;
+  sort?: ArtifactSort | ArtifactSort[];
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * One page of query results
+ */
+export interface ArtifactQueryResult {
+  items: VersionedArtifact[];
+  total: number;
+  offset: number;
+  limit?: number;
+  hasMore: boolean;
+}
+
+/**
+ * Evaluate a tag expression against an artifact's tags
+ */
+export function matchesTags(tags: string[], expression: TagExpression): boolean {
+  if (typeof expression === 'string') {
+    return tags.includes(expression);
+  }
+
+  if ('and' in expression) {
+    return expression.and.every(e => matchesTags(tags, e));
+  }
+
+  if ('or' in expression) {
+    return expression.or.some(e => matchesTags(tags, e));
+  }
+
+  return !matchesTags(tags, expression.not);
+}
+
+function metadataValue(metadata: Record<string, any>, key: string): any {
+  if (key in metadata) return metadata[key];
+  return key.split('.').reduce((value, part) => value?.[part], metadata as any);
+}
+
+function matchesMetadata(value: any, matcher: MetadataMatcher): boolean {
+  if (matcher !== null && typeof matcher === 'object') {
+    if ('exists' in matcher) return (value !== undefined) === matcher.exists;
+    if ('in' in matcher) return matcher.in.includes(value);
+    if ('pattern' in matcher) return typeof value === 'string' && matcher.pattern.test(value);
+  }
+
+  return value === matcher;
+}
+
+function inRange(date: Date, range: DateRange): boolean {
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+/**
+ * Collect the searchable text of an artifact: name, description, and
+ * every string, number and object key in its content
+ */
+export function searchableText(artifact: VersionedArtifact): string {
+  const parts: string[] = [artifact.name, artifact.description || ''];
+
+  const collect = (value: any) => {
+    if (typeof value === 'string' || typeof value === 'number') {
+      parts.push(String(value));
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        parts.push(key);
+        collect(nested);
+      }
+    }
+  };
+
+  collect(artifact.content);
+
+  return parts.join(' ').toLowerCase();
+}
+
+/**
+ * Check whether an artifact matches the filter criteria of a query
+ */
+export function matchesQuery(artifact: VersionedArtifact, query: ArtifactQuery): boolean {
+  if (!query.includeDeleted && artifact.deletedAt) return false;
+
+  if (query.type) {
+    const types = Array.isArray(query.type) ? query.type : [query.type];
+    if (!types.includes(artifact.type)) return false;
+  }
+
+  if (query.name !== undefined) {
+    const matches = typeof query.name === 'string'
+      ? artifact.name === query.name
+      : query.name.test(artifact.name);
+    if (!matches) return false;
+  }
+
+  if (query.tags !== undefined && !matchesTags(artifact.tags, query.tags)) return false;
+
+  if (query.metadata) {
+    for (const [key, matcher] of Object.entries(query.metadata)) {
+      if (!matchesMetadata(metadataValue(artifact.metadata, key), matcher)) return false;
+    }
+  }
+
+  if (query.version && !satisfies(artifact.version, query.version)) return false;
+  if (query.createdAt && !inRange(artifact.createdAt, query.createdAt)) return false;
+  if (query.updatedAt && !inRange(artifact.updatedAt, query.updatedAt)) return false;
+
+  if (query.text) {
+    const text = searchableText(artifact);
+    const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every(term => text.includes(term))) return false;
+  }
+
+  return true;
+}
+
+function compareBy(a: VersionedArtifact, b: VersionedArtifact, field: ArtifactSortField): number {
+  switch (field) {
+    case 'version':
+      return compareVersions(a.version, b.version);
+    case 'createdAt':
+    case 'updatedAt':
+      return a[field].getTime() - b[field].getTime();
+    default:
+      return a[field].localeCompare(b[field]);
+  }
+}
+
+/**
+ * Filter, sort and page artifacts
+ */
+export function queryArtifacts(artifacts: VersionedArtifact[], query: ArtifactQuery = {}): ArtifactQueryResult {
+  const matched = artifacts.filter(a => matchesQuery(a, query));
+  const sorts = query.sort ? (Array.isArray(query.sort) ? query.sort : [query.sort]) : [];
+
+  if (sorts.length > 0) {
+    matched.sort((a, b) => {
+      for (const sort of sorts) {
+        const order = compareBy(a, b, sort.field);
+        if (order !== 0) return sort.order === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  const offset = Math.max(0, query.offset || 0);
+  const items = query.limit !== undefined
+    ? matched.slice(offset, offset + query.limit)
+    : matched.slice(offset);
+
+  return {
+    items,
+    total: matched.length,
+    offset,
+    limit: query.limit,
+    hasMore: offset + items.length < matched.length,
+  };
+}
@@ -0,0 +1,286 @@
+/**
+ * Agent Pipeline Versioning - Remotes
+ *
+ * Syncs Repository instances the way git remotes do. A RemoteServer
+ * answers requests for one repository; a transport carries them:
+ * - LoopbackTransport talks to a server in the same process
+ * - SocketTransport talks to a server listening on a local socket
+ * History travels as signed bundles, so every received commit is
+ * signature-checked, and branches only ever move forward. Both ends must
+ * share a signing key for their bundles to verify.
+ */
+
+import * as net from 'net';
+import { RepositoryConfig, Tag } from './types';
+import { encodeRecord, decodeRecord } from './storage';
+import { ImportBundleResult } from './bundle';
+import { Repository } from './repository';
+
+/**
+ * Request sent to a remote repository
+ */
+export type RemoteRequest =
+  | { type: 'advertise' }
+  | { type: 'fetch'; refs?: string[]; have: string[] }
+  | { type: 'push'; bundle: string; pushedBy: string; force?: boolean };
+
+/**
+ * Branch heads and tags offered by a remote repository
+ */
+export interface RemoteAdvertisement {
+  config: RepositoryConfig;
+  branches: Record<string, string | null>; // Branch name -> head commit ID
+  tags: Tag[];
+}
+
+/**
+ * Response from a remote repository
+ */
+export type RemoteResponse =
+  | { type: 'advertise'; advertisement: RemoteAdvertisement }
+  | { type: 'fetch'; bundle: string }
+  | { type: 'push'; result: ImportBundleResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Carries requests to a remote repository
+ */
+export interface RemoteTransport {
+  request(request: RemoteRequest): Promise<RemoteResponse>;
+}
+
+/**
+ * How a server treats pushes. Clients cannot authenticate themselves over
+ * a transport, so the server records pushes under its own actor and only
+ * keeps the client-supplied pusher as a claim.
+ */
+export interface RemoteServerOptions {
+  actor?: string; // Recorded as the importer of pushed bundles (default 'remote')
+  allowForcePush?: boolean; // Let pushes overwrite diverged, unprotected branches
+}
+
+/**
+ * Outcome of a fetch
+ */
+export interface FetchResult {
+  remote: string;
+  heads: Record<string, string>; // Remote branch -> head commit ID
+  updated: Record<string, string>; // Local branches created or fast-forwarded -> new head
+  diverged: string[]; // Local branches whose history diverged; left untouched
+  tags: string[];
+  commits: string[];
+}
+
+/**
+ * Outcome of a push, as reported by the remote
+ */
+export type PushResult = ImportBundleResult;
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Remote Server - Answers remote requests for one repository.
+ * Requests are handled one at a time so concurrent pushes cannot race.
+ */
+export class RemoteServer {
+  private queue: Promise<unknown> = Promise.resolve();
+  private servers: Set<net.Server> = new Set();
+
+  constructor(
+    private readonly repository: Repository,
+    private readonly options: RemoteServerOptions = {}
+  ) {}
+
+  /**
+   * Handle one request
+   */
+  handle(request: RemoteRequest): Promise<RemoteResponse> {
+    const response = this.queue.then(() => this.dispatch(request));
+    this.queue = response.catch(() => undefined);
+    return response;
+  }
+
+  private async dispatch(request: RemoteRequest): Promise<RemoteResponse> {
+    try {
+      switch (request.type) {
+        case 'advertise':
+          return { type: 'advertise', advertisement: this.advertise() };
+
+        case 'fetch':
+          return {
+            type: 'fetch',
+            bundle: await this.repository.exportBundle({
+              refs: request.refs,
+              exclude: request.have,
+              exportedBy: 'remote',
+            }),
+          };
+
+        case 'push':
+          if (request.force && !this.options.allowForcePush) {
+            throw new Error('Force push is disabled on this remote');
+          }
+
+          return {
+            type: 'push',
+            result: await this.repository.importBundle(request.bundle, this.options.actor || 'remote', {
+              onDiverged: request.force ? 'overwrite' : 'reject',
+              claimedBy: request.pushedBy,
+            }),
+          };
+
+        default:
+          throw new Error(`Unknown remote request "${(request as any).type}"`);
+      }
+    } catch (error) {
+      return { type: 'error', message: (error as Error).message };
+    }
+  }
+
+  private advertise(): RemoteAdvertisement {
+    const branches: Record<string, string | null> = {};
+
+    for (const branch of this.repository.listBranches()) {
+      branches[branch.name] = branch.headCommit;
+    }
+
+    return {
+      config: this.repository.getConfig(),
+      branches,
+      tags: this.repository.listTags(),
+    };
+  }
+
+  /**
+   * Serve requests on a local socket (a Unix socket path or a Windows
+   * named pipe). Each request and response is one line of JSON.
+   */
+  listen(socketPath: string): Promise<void> {
+    const server = net.createServer(socket => {
+      let buffer = '';
+
+      socket.setEncoding('utf8');
+      socket.on('data', chunk => {
+        buffer += chunk;
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+
+          let request: RemoteRequest;
+          try {
+            request = decodeRecord(line);
+          } catch {
+            socket.write(encodeRecord({ type: 'error', message: 'Malformed request' }) + '\n');
+            continue;
+          }
+
+          this.handle(request).then(response => {
+            if (!socket.destroyed) socket.write(encodeRecord(response) + '\n');
+          });
+        }
+      });
+      socket.on('error', () => socket.destroy());
+    });
+
+    this.servers.add(server);
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop serving on every socket
+   */
+  async close(): Promise<void> {
+    const servers = Array.from(this.servers);
+    this.servers.clear();
+
+    await Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+  }
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * In-process transport. Messages are encoded as on the wire, so the two
+ * repositories never share objects.
+ */
+export class LoopbackTransport implements RemoteTransport {
+  constructor(private readonly server: RemoteServer) {}
+
+  async request(request: RemoteRequest): Promise<RemoteResponse> {
+    const response = await this.server.handle(decodeRecord(encodeRecord(request)));
+    return decodeRecord(encodeRecord(response));
+  }
+}
+
+/**
+ * Transport to a RemoteServer listening on a local socket. Opens one
+ * connection per request.
+ */
+export class SocketTransport implements RemoteTransport {
+  constructor(
+    private readonly socketPath: string,
+    private readonly timeoutMs: number = 30000
+  ) {}
+
+  request(request: RemoteRequest): Promise<RemoteResponse> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(this.socketPath);
+      let buffer = '';
+
+      socket.setEncoding('utf8');
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`Remote at "${this.socketPath}" timed out`));
+      });
+
+      socket.on('connect', () => socket.write(encodeRecord(request) + '\n'));
+      socket.on('data', chunk => {
+        buffer += chunk;
+
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) return;
+
+        socket.end();
+        try {
+          resolve(decodeRecord(buffer.slice(0, newline)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+      socket.on('error', reject);
+      socket.on('close', () => reject(new Error(`Remote at "${this.socketPath}" closed the connection`)));
+    });
+  }
+}
+
+/**
+ * Send a request and unwrap the response of the expected type
+ */
+export async function requestRemote<T extends RemoteResponse['type']>(
+  transport: RemoteTransport,
+  request: RemoteRequest & { type: T }
+): Promise<Extract<RemoteResponse, { type: T }>> {
+  const response = await transport.request(request);
+
+  if (response.type === 'error') {
+    throw new Error(`Remote rejected ${request.type}: ${response.message}`);
+  }
+
+  if (response.type !== request.type) {
+    throw new Error(`Unexpected "${response.type}" response to ${request.type}`);
+  }
+
+  return response as Extract<RemoteResponse, { type: T }>;
+}
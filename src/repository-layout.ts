@@ -0,0 +1,343 @@
+/**
+ * Agent Pipeline Versioning - On-Disk Repository Layout
+ *
+ * Persists a repository to a directory, much like a .git directory:
+ *
+ *   config.json             Repository configuration
+ *   objects/ab/cdef...      Content blobs and artifact snapshots (write-once)
+ *   commits/ab/cdef...      Commits (write-once)
+ *   refs/heads/<branch>     Branch records
+ *   refs/tags/<tag>         Tag records
+ *   audit.journal           Append-only audit log, one entry per line
+ *   state/<collection>/     Everything else, one JSON file per record
+ *
+ * Every rewritable file is replaced via write-then-rename, and a journal
+ * line torn by a crash is dropped on open, so a killed process never
+ * leaves a corrupt repository.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepositoryConfig, RepositoryConfigSchema } from './types';
+import {
+  StorageAdapter,
+  FileSystemStorageAdapter,
+  STORAGE_COLLECTIONS,
+  encodeRecord,
+  decodeRecord,
+  writeFileAtomic,
+} from './storage';
+
+const CONFIG_FILE = 'config.json';
+const JOURNAL_FILE = 'audit.journal';
+
+/**
+ * Storage for one collection of the layout
+ */
+interface CollectionStore {
+  get(key: string): any;
+  set(key: string, value: any): void;
+  delete(key: string): boolean;
+  keys(): string[];
+  clear(): void;
+}
+
+/**
+ * List the files under a directory as '/'-separated relative paths
+ */
+function listFiles(directory: string, prefix: string = ''): string[] {
+  if (!fs.existsSync(directory)) return [];
+
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path.join(directory, entry.name), `${prefix}${entry.name}/`));
+    } else if (!entry.name.endsWith('.tmp')) {
+      files.push(`${prefix}${entry.name}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Immutable records fanned out by the first two characters of their key.
+ * A record is written once; rewriting it with different contents fails.
+ */
+class WriteOnceStore implements CollectionStore {
+  private cache: Map<string, string> | undefined;
+
+  constructor(private readonly directory: string) {}
+
+  private file(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), key.slice(2));
+  }
+
+  private load(): Map<string, string> {
+    if (!this.cache) {
+      this.cache = new Map();
+      for (const file of listFiles(this.directory)) {
+        const key = file.replace('/', '');
+        this.cache.set(key, fs.readFileSync(path.join(this.directory, file), 'utf8'));
+      }
+    }
+    return this.cache;
+  }
+
+  get(key: string): any {
+    const text = this.load().get(key);
+    return text === undefined ? undefined : decodeRecord(text);
+  }
+
+  set(key: string, value: any): void {
+    const text = encodeRecord(value);
+    const existing = this.load().get(key);
+
+    if (existing !== undefined) {
+      if (existing !== text) {
+        throw new Error(`Object "${key}" already exists and cannot be rewritten`);
+      }
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.file(key)), { recursive: true });
+    writeFileAtomic(this.file(key), text);
+    this.load().set(key, text);
+  }
+
+  /**
+   * Remove a record. Only used to purge content past its retention period.
+   */
+  delete(key: string): boolean {
+    if (!this.load().delete(key)) return false;
+    fs.rmSync(this.file(key), { force: true });
+    return true;
+  }
+
+  keys(): string[] {
+    return Array.from(this.load().keys());
+  }
+
+  clear(): void {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+    this.cache = new Map();
+  }
+}
+
+/**
+ * Small named ref files; names may contain '/' like "feature/login"
+ */
+class RefStore implements CollectionStore {
+  private cache: Map<string, string> | undefined;
+
+  constructor(private readonly directory: string) {}
+
+  private load(): Map<string, string> {
+    if (!this.cache) {
+      this.cache = new Map(listFiles(this.directory).map(name => [
+        name,
+        fs.readFileSync(path.join(this.directory, name), 'utf8'),
+      ]));
+    }
+    return this.cache;
+  }
+
+  get(key: string): any {
+    const text = this.load().get(key);
+    return text === undefined ? undefined : decodeRecord(text);
+  }
+
+  set(key: string, value: any): void {
+    const file = path.join(this.directory, key);
+    const text = encodeRecord(value);
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    writeFileAtomic(file, text);
+    this.load().set(key, text);
+  }
+
+  delete(key: string): boolean {
+    if (!this.load().delete(key)) return false;
+    fs.rmSync(path.join(this.directory, key), { force: true });
+    return true;
+  }
+
+  keys(): string[] {
+    return Array.from(this.load().keys());
+  }
+
+  clear(): void {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+    this.cache = new Map();
+  }
+}
+
+/**
+ * Append-only journal. Every set or delete appends one line; the current
+ * state is the replay of all lines.
+ */
+class JournalStore implements CollectionStore {
+  private records: Map<string, any> | undefined;
+
+  constructor(private readonly file: string) {}
+
+  private load(): Map<string, any> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    if (!fs.existsSync(this.file)) return this.records;
+
+    const text = fs.readFileSync(this.file, 'utf8');
+    const complete = text.slice(0, text.lastIndexOf('\n') + 1);
+
+    // Drop a trailing line torn by a crash before anything is appended to it
+    if (complete.length < text.length) {
+      fs.truncateSync(this.file, Buffer.byteLength(complete));
+    }
+
+    for (const line of complete.split('\n').filter(Boolean)) {
+      const entry = decodeRecord(line);
+      if (entry.deleted) {
+        this.records.delete(entry.key);
+      } else {
+        this.records.set(entry.key, entry.value);
+      }
+    }
+
+    return this.records;
+  }
+
+  private append(entry: any): void {
+    const fd = fs.openSync(this.file, 'a');
+
+    try {
+      fs.writeSync(fd, encodeRecord(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  get(key: string): any {
+    const value = this.load().get(key);
+    return value === undefined ? undefined : decodeRecord(encodeRecord(value));
+  }
+
+  set(key: string, value: any): void {
+    this.load();
+    this.append({ key, value });
+    this.records!.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    if (!this.load().has(key)) return false;
+    this.append({ key, deleted: true });
+    this.records!.delete(key);
+    return true;
+  }
+
+  keys(): string[] {
+    return Array.from(this.load().keys());
+  }
+
+  clear(): void {
+    for (const key of this.keys()) {
+      this.delete(key);
+    }
+  }
+}
+
+/**
+ * Storage adapter over the on-disk repository layout
+ */
+export class RepositoryLayoutAdapter implements StorageAdapter {
+  private stores: Map<string, CollectionStore>;
+  private state: FileSystemStorageAdapter;
+
+  constructor(readonly root: string) {
+    this.state = new FileSystemStorageAdapter(path.join(root, 'state'));
+    this.stores = new Map<string, CollectionStore>([
+      [STORAGE_COLLECTIONS.OBJECTS, new WriteOnceStore(path.join(root, 'objects'))],
+      [STORAGE_COLLECTIONS.COMMITS, new WriteOnceStore(path.join(root, 'commits'))],
+      [STORAGE_COLLECTIONS.BRANCHES, new RefStore(path.join(root, 'refs', 'heads'))],
+      [STORAGE_COLLECTIONS.TAGS, new RefStore(path.join(root, 'refs', 'tags'))],
+      [STORAGE_COLLECTIONS.AUDIT_LOG, new JournalStore(path.join(root, JOURNAL_FILE))],
+    ]);
+  }
+
+  /**
+   * Check whether a directory holds a repository
+   */
+  static exists(root: string): boolean {
+    return fs.existsSync(path.join(root, CONFIG_FILE));
+  }
+
+  /**
+   * Create the layout for a new repository
+   */
+  static init(root: string, config: RepositoryConfig): RepositoryLayoutAdapter {
+    if (RepositoryLayoutAdapter.exists(root)) {
+      throw new Error(`Repository already exists at "${root}"`);
+    }
+
+    fs.mkdirSync(root, { recursive: true });
+    const adapter = new RepositoryLayoutAdapter(root);
+    adapter.writeConfig(config);
+
+    return adapter;
+  }
+
+  /**
+   * Open the layout of an existing repository
+   */
+  static open(root: string): RepositoryLayoutAdapter {
+    if (!RepositoryLayoutAdapter.exists(root)) {
+      throw new Error(`No repository found at "${root}"`);
+    }
+
+    return new RepositoryLayoutAdapter(root);
+  }
+
+  readConfig(): RepositoryConfig {
+    const text = fs.readFileSync(path.join(this.root, CONFIG_FILE), 'utf8');
+    return RepositoryConfigSchema.parse(JSON.parse(text));
+  }
+
+  writeConfig(config: RepositoryConfig): void {
+    writeFileAtomic(path.join(this.root, CONFIG_FILE), JSON.stringify(config, null, 2));
+  }
+
+  get<T = any>(collection: string, key: string): T | undefined {
+    const store = this.stores.get(collection);
+    return store ? store.get(key) : this.state.get<T>(collection, key);
+  }
+
+  set<T = any>(collection: string, key: string, value: T): void {
+    const store = this.stores.get(collection);
+    if (store) {
+      store.set(key, value);
+    } else {
+      this.state.set(collection, key, value);
+    }
+  }
+
+  delete(collection: string, key: string): boolean {
+    const store = this.stores.get(collection);
+    return store ? store.delete(key) : this.state.delete(collection, key);
+  }
+
+  keys(collection: string): string[] {
+    const store = this.stores.get(collection);
+    return store ? store.keys() : this.state.keys(collection);
+  }
+
+  clear(collection: string): void {
+    const store = this.stores.get(collection);
+    if (store) {
+      store.clear();
+    } else {
+      this.state.clear(collection);
+    }
+  }
+}
@@ -14,52 +14,292 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   VersionedArtifact,
   Commit,
+  Change,
+  Tag,
+  Rollback,
+  DependencyReference,
+  Lockfile,
+  LegalHold,
+  PurgeRecord,
+  AuditLog,
   ArtifactType,
-  VersionType,
   EnvironmentSnapshot,
+  ArtifactSnapshot,
+  ArtifactSelector,
+  RepositorySnapshot,
   RepositoryConfig,
   RepositoryConfigSchema,
   VersionedArtifactSchema,
   CommitSchema,
   EnvironmentSnapshotSchema,
+  LegalHoldSchema,
+  PurgeRecordSchema,
   parseVersion,
-  bumpVersion,
-  detectVersionType,
+  compareVersions,
+  isPrerelease,
+  promoteVersion,
+  nextPrerelease,
 } from './types';
-import { sha256, signCommit, generateSignature } from './crypto';
-import { BranchManager } from './branching';
-import { AuditLogService, AUDIT_ACTIONS } from './audit';
+import {
+  sha256,
+  contentHash,
+  signCommit,
+  verifyCommitSignature,
+  generateSignature,
+  CommitSignatureData,
+} from './crypto';
+import { BranchManager, getReleaseVersion, findNestedRef } from './branching';
+import { CommitGraph } from './commit-graph';
+import { TagManager } from './tags';
+import { DependencyGraph, DependencyImpact, normalizeDependencies, formatDependencyReference } from './dependencies';
+import { generateLockfile, verifyLockfile, LockfileVerification } from './lockfile';
+import {
+  ContentSchemaRegistry,
+  ContentValidationResult,
+  createContentSchemaRegistry,
+} from './content-schemas';
+import { validateWorkflowGraph, describeWorkflowErrors, WorkflowValidationResult } from './workflow-graph';
+import { renderPrompt, diffPromptVariables, PromptVariableDiff } from './prompt-template';
+import { checkToolCompatibility, ToolCompatibilityReport } from './tool-compatibility';
+import { queryArtifacts, ArtifactQuery, ArtifactQueryResult } from './query';
+import { AuditLogService, AuditLogEntry, AUDIT_ACTIONS, verifyAuditSegment } from './audit';
 import { RollbackService, DEFAULT_ROLLBACK_CONFIG } from './rollback';
 import { FDAComplianceService } from './fda-compliance';
+import { ObjectStore } from './object-store';
+import {
+  StorageAdapter,
+  StorageCollection,
+  MemoryStorageAdapter,
+  STORAGE_COLLECTIONS,
+  workspaceCollection,
+  writeFileAtomic,
+} from './storage';
+import { RepositoryLayoutAdapter } from './repository-layout';
+import {
+  FormatMigrationRegistry,
+  serializeRepository,
+  parseSerializedRepository,
+  loadRepository,
+} from './serialization';
+import {
+  RepositoryBundle,
+  ExportBundleOptions,
+  ImportBundleOptions,
+  ImportBundleResult,
+  BundleImportRecord,
+  BUNDLE_FORMAT_VERSION,
+  signBundle,
+  signingKeyId,
+  verifyBundleSignature,
+  encodeBundle,
+  decodeBundle,
+} from './bundle';
+import { RemoteTransport, FetchResult, PushResult, requestRemote } from './remote';
+import { HookRegistry, HookOperation, HookContexts, HookResults, createHookRegistry } from './hooks';
+import { diffContent, deepEqual, applyChanges, invertChanges } from './diff';
+import {
+  ConflictResolution,
+  MergeConflict,
+  MergeResult,
+  CherryPickResult,
+  PendingMerge,
+  mergeContent,
+  createConflicts,
+  createDeleteConflict,
+  applyResolutions,
+} from './merge';
+import { VersionRuleRegistry, createVersionRuleRegistry, detectVersionBump } from './version-rules';
+
+/**
+ * Order artifact IDs so the given primary artifact comes first, if present
+ */
+function primaryFirst(artifactIds: string[], primary: string): string[] {
+  return artifactIds.includes(primary)
+    ? [primary, ...artifactIds.filter(id => id !== primary)]
+    : artifactIds;
+}
 
 /**
  * Repository - Main entry point for the versioning system
  */
 export class Repository {
   private config: RepositoryConfig;
-  private artifacts: Map<string, VersionedArtifact> = new Map();
-  private commits: Map<string, Commit> = new Map();
-  private environments: Map<string, EnvironmentSnapshot> = new Map();
+  private storage: StorageAdapter;
+  private workspaces: StorageCollection<{ branch: string; baseCommit: string | null }>;
+  private commits: StorageCollection<Commit>;
+  private environments: StorageCollection<EnvironmentSnapshot>;
+  private objects: ObjectStore;
+  private versionRules: VersionRuleRegistry = createVersionRuleRegistry();
+  private contentSchemas: ContentSchemaRegistry;
+  private hooks: HookRegistry = createHookRegistry();
+  private pendingMerges: StorageCollection<PendingMerge>;
+  private legalHolds: StorageCollection<LegalHold>;
+  private purged: StorageCollection<PurgeRecord>;
+  private bundles: StorageCollection<BundleImportRecord>;
+  private remoteRefs: StorageCollection<string>;
   private signingKey: string;
   
   // Services
+  private commitGraph: CommitGraph;
   private branchManager: BranchManager;
+  private tagManager: TagManager;
   private auditLog: AuditLogService;
   private rollbackService: RollbackService;
   private fdaCompliance: FDAComplianceService;
   
   constructor(
     config: RepositoryConfig,
-    signingKey: string = 'default-signing-key'
+    signingKey: string = 'default-signing-key',
+    storage: StorageAdapter = new MemoryStorageAdapter()
   ) {
     this.config = config;
     this.signingKey = signingKey;
+    this.storage = storage;
+    
+    // State collections
+    this.workspaces = new StorageCollection(storage, STORAGE_COLLECTIONS.WORKSPACES);
+    this.commits = new StorageCollection(storage, STORAGE_COLLECTIONS.COMMITS);
+    this.environments = new StorageCollection(storage, STORAGE_COLLECTIONS.ENVIRONMENTS);
+    this.objects = new ObjectStore(storage);
+    this.pendingMerges = new StorageCollection(storage, STORAGE_COLLECTIONS.PENDING_MERGES);
+    this.legalHolds = new StorageCollection(storage, STORAGE_COLLECTIONS.LEGAL_HOLDS);
+    this.purged = new StorageCollection(storage, STORAGE_COLLECTIONS.PURGED);
+    this.bundles = new StorageCollection(storage, STORAGE_COLLECTIONS.BUNDLES);
+    this.remoteRefs = new StorageCollection(storage, STORAGE_COLLECTIONS.REMOTE_REFS);
+    this.contentSchemas = createContentSchemaRegistry(storage);
     
     // Initialize services
-    this.auditLog = new AuditLogService(config);
-    this.branchManager = new BranchManager(config, this.auditLog);
-    this.rollbackService = new RollbackService(DEFAULT_ROLLBACK_CONFIG, this.auditLog);
-    this.fdaCompliance = new FDAComplianceService(this.auditLog);
+    this.auditLog = new AuditLogService(config, storage);
+    this.commitGraph = new CommitGraph(id => this.commits.get(id));
+    this.branchManager = new BranchManager(config, this.auditLog, this.commitGraph, storage);
+    this.tagManager = new TagManager(this.auditLog, id => this.commits.get(id), storage);
+    this.rollbackService = new RollbackService(DEFAULT_ROLLBACK_CONFIG, this.auditLog, undefined, storage);
+    this.fdaCompliance = new FDAComplianceService(this.auditLog, storage);
+  }
+  
+  /**
+   * Get the repository configuration
+   */
+  getConfig(): RepositoryConfig {
+    return this.config;
+  }
+  
+  /**
+   * Get the storage adapter holding the repository state
+   */
+  getStorage(): StorageAdapter {
+    return this.storage;
+  }
+  
+  // ==========================================================================
+  // Lifecycle Hooks
+  // ==========================================================================
+  
+  /**
+   * Get the registry of hooks run around repository operations
+   */
+  getHooks(): HookRegistry {
+    return this.hooks;
+  }
+  
+  /**
+   * Run the pre-hooks of an operation. A veto is recorded in the audit
+   * log and aborts the operation before anything has changed.
+   */
+  private async runPreHooks<O extends HookOperation>(
+    operation: O,
+    context: HookContexts[O],
+    audit: Pick<AuditLogEntry, 'actor' | 'target' | 'targetType'>
+  ): Promise<void> {
+    const rejection = await this.hooks.runBefore(operation, context);
+    if (!rejection) return;
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.OPERATION_REJECTED,
+      ...audit,
+      details: { operation, hookId: rejection.hookId, reason: rejection.reason },
+    });
+    
+    throw new Error(`${operation} rejected by hook "${rejection.hookId}": ${rejection.reason}`);
+  }
+  
+  /**
+   * Run the post-hooks of an operation. The operation has completed, so
+   * failing hooks are recorded in the audit log instead of thrown.
+   */
+  private async runPostHooks<O extends HookOperation>(
+    operation: O,
+    result: HookResults[O],
+    context: HookContexts[O],
+    audit: Pick<AuditLogEntry, 'actor' | 'target' | 'targetType'>
+  ): Promise<void> {
+    for (const failure of await this.hooks.runAfter(operation, result, context)) {
+      await this.auditLog.log({
+        action: AUDIT_ACTIONS.HOOK_FAILED,
+        ...audit,
+        details: { operation, hookId: failure.hookId, error: failure.error },
+      });
+    }
+  }
+  
+  // ==========================================================================
+  // Branch Workspaces
+  // ==========================================================================
+  
+  /**
+   * Artifacts visible on the current branch
+   */
+  private get artifacts(): StorageCollection<VersionedArtifact> {
+    return this.getWorkspace(this.branchManager.getCurrentBranch());
+  }
+  
+  /**
+   * Get a branch's view of artifact contents, deriving it from the
+   * branch head commit the first time the branch is used
+   */
+  private getWorkspace(branchName: string): StorageCollection<VersionedArtifact> {
+    if (this.workspaces.has(branchName)) {
+      return this.openWorkspace(branchName);
+    }
+    
+    const branch = this.branchManager.getBranch(branchName);
+    if (!branch) {
+      throw new Error(`Branch "${branchName}" does not exist`);
+    }
+    
+    return this.deriveWorkspace(branchName, branch.headCommit);
+  }
+  
+  private openWorkspace(branchName: string): StorageCollection<VersionedArtifact> {
+    return new StorageCollection(this.storage, workspaceCollection(branchName));
+  }
+  
+  /**
+   * (Re)build a branch workspace from the artifacts committed up to a commit
+   */
+  private deriveWorkspace(branchName: string, headCommit: string | null): StorageCollection<VersionedArtifact> {
+    const workspace = this.openWorkspace(branchName);
+    workspace.clear();
+    
+    for (const [artifactId, artifactHash] of Object.entries(this.readTree(headCommit))) {
+      workspace.set(artifactId, this.loadSnapshot(artifactHash));
+    }
+    
+    this.workspaces.set(branchName, { branch: branchName, baseCommit: headCommit });
+    return workspace;
+  }
+  
+  /**
+   * Reset a branch's workspace to its head commit, discarding uncommitted edits
+   */
+  resetWorkspace(branchName: string = this.branchManager.getCurrentBranch()): void {
+    const branch = this.branchManager.getBranch(branchName);
+    
+    if (!branch) {
+      throw new Error(`Branch "${branchName}" does not exist`);
+    }
+    
+    this.deriveWorkspace(branchName, branch.headCommit);
   }
   
   // ==========================================================================
@@ -77,7 +317,10 @@ export class Repository {
     createdBy: string;
     metadata?: Record<string, any>;
     tags?: string[];
+    dependencies?: Array<DependencyReference | string>; // Objects or "name@range" strings
   }): Promise<VersionedArtifact> {
+    const schemaVersion = this.contentSchemas.assertValid(params.type, params.content);
+    
     const artifact: VersionedArtifact = {
       id: uuidv4(),
       type: params.type,
@@ -85,11 +328,13 @@ export class Repository {
       version: '0.0.0',
       description: params.description,
       content: params.content,
+      schemaVersion: schemaVersion || undefined,
       metadata: params.metadata || {},
       createdAt: new Date(),
       updatedAt: new Date(),
       createdBy: params.createdBy,
       tags: params.tags || [],
+      dependencies: normalizeDependencies(params.dependencies || []),
     };
     
     // Validate
@@ -126,21 +371,35 @@ export class Repository {
       throw new Error(`Artifact "${artifactId}" not found`);
     }
     
-    // Determine version bump type
-    let versionType: VersionType = 'PATCH';
-    if (updates.content && artifact.content) {
-      versionType = detectVersionType(artifact.content, updates.content);
+    if (artifact.deletedAt) {
+      throw new Error(`Artifact "${artifactId}" is deleted; restore it before updating`);
     }
     
-    // Bump version
-    const bump = bumpVersion(artifact.version, versionType);
+    // New content is written with the latest content schema
+    const schemaVersion = updates.content !== undefined
+      ? this.contentSchemas.assertValid(artifact.type, updates.content) || undefined
+      : artifact.schemaVersion;
+    
+    // Determine version bump from the content diff
+    const bump = detectVersionBump(
+      artifact.type,
+      artifact.version,
+      artifact.content,
+      updates.content !== undefined ? updates.content : artifact.content,
+      this.versionRules
+    );
+    const newVersion = this.releaseVersion(artifact.version, bump.newVersion);
     
     // Create updated artifact
     const updated: VersionedArtifact = {
       ...artifact,
       ...updates,
+      dependencies: updates.dependencies
+        ? normalizeDependencies(updates.dependencies)
+        : artifact.dependencies,
+      schemaVersion,
       id: artifact.id, // Keep original ID
-      version: bump.newVersion,
+      version: newVersion,
       updatedAt: new Date(),
     };
     
@@ -152,24 +411,112 @@ export class Repository {
       actor: updatedBy,
       target: artifactId,
       targetType: 'artifact',
-      details: { oldVersion: artifact.version, newVersion: bump.newVersion },
+      details: {
+        oldVersion: artifact.version,
+        newVersion,
+        bumpType: bump.type,
+        reasons: bump.reasons.map(r => r.reason),
+      },
     });
     
     return updated;
   }
   
   /**
-   * Get artifact by ID
+   * Version for an updated artifact. On a release/<version> branch, changes
+   * that fit within the release become its next release candidate
+   * (2.0.0-rc.1, 2.0.0-rc.2, ...); changes that need a higher version, or
+   * artifacts already past the release, keep the regular bump.
+   */
+  private releaseVersion(
+    currentVersion: string,
+    bumpedVersion: string,
+    branchName: string = this.branchManager.getCurrentBranch()
+  ): string {
+    const release = getReleaseVersion(branchName);
+    
+    if (!release || compareVersions(promoteVersion(bumpedVersion), release) > 0) {
+      return bumpedVersion;
+    }
+    
+    return nextPrerelease(currentVersion, release);
+  }
+  
+  /**
+   * Promote a prerelease artifact to its release, e.g. 2.0.0-rc.2 -> 2.0.0
+   */
+  async promoteArtifact(artifactId: string, promotedBy: string): Promise<VersionedArtifact> {
+    const artifact = this.artifacts.get(artifactId);
+    
+    if (!artifact) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    if (!isPrerelease(artifact.version)) {
+      throw new Error(`Artifact "${artifactId}" version ${artifact.version} is not a prerelease`);
+    }
+    
+    const promoted: VersionedArtifact = {
+      ...artifact,
+      version: promoteVersion(artifact.version),
+      updatedAt: new Date(),
+    };
+    
+    this.artifacts.set(artifactId, promoted);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.ARTIFACT_UPDATED,
+      actor: promotedBy,
+      target: artifactId,
+      targetType: 'artifact',
+      details: {
+        oldVersion: artifact.version,
+        newVersion: promoted.version,
+        promoted: true,
+      },
+    });
+    
+    return promoted;
+  }
+  
+  /**
+   * Get the version rule registry used for bump detection
+   */
+  getVersionRules(): VersionRuleRegistry {
+    return this.versionRules;
+  }
+  
+  /**
+   * Get the content schema registry used to validate artifact content
    */
-  getArtifact(id: string): VersionedArtifact | undefined {
-    return this.artifacts.get(id);
+  getContentSchemas(): ContentSchemaRegistry {
+    return this.contentSchemas;
+  }
+  
+  /**
+   * Validate an artifact's content against the schema version it was
+   * written with. Content written before schemas existed is not checked.
+   */
+  validateArtifact(artifact: VersionedArtifact): ContentValidationResult {
+    if (artifact.schemaVersion === undefined) {
+      return { valid: true, schemaVersion: 0, issues: [] };
+    }
+    
+    return this.contentSchemas.validate(artifact.type, artifact.content, artifact.schemaVersion);
+  }
+  
+  /**
+   * Get artifact by ID on the current branch, or on the given branch
+   */
+  getArtifact(id: string, branch?: string): VersionedArtifact | undefined {
+    return (branch ? this.getWorkspace(branch) : this.artifacts).get(id);
   }
   
   /**
    * Get artifact by name
    */
   getArtifactByName(name: string): VersionedArtifact | undefined {
-    return Array.from(this.artifacts.values()).find(a => a.name === name);
+    return Array.from(this.artifacts.values()).find(a => a.name === name && !a.deletedAt);
   }
   
   /**
@@ -178,8 +525,15 @@ export class Repository {
   getArtifacts(options?: {
     type?: ArtifactType;
     tags?: string[];
+    branch?: string;
+    includeDeleted?: boolean;
   }): VersionedArtifact[] {
-    let filtered = Array.from(this.artifacts.values());
+    const workspace = options?.branch ? this.getWorkspace(options.branch) : this.artifacts;
+    let filtered = Array.from(workspace.values());
+    
+    if (!options?.includeDeleted) {
+      filtered = filtered.filter(a => !a.deletedAt);
+    }
     
     if (options?.type) {
       filtered = filtered.filter(a => a.type === options.type);
@@ -195,140 +549,1605 @@ export class Repository {
   }
   
   /**
-   * Delete artifact
+   * Query artifacts on a branch (current branch if omitted) by type, tags,
+   * metadata, version range, dates and content text, with sorting and paging
+   */
+  queryArtifacts(query: ArtifactQuery & { branch?: string } = {}): ArtifactQueryResult {
+    const workspace = query.branch ? this.getWorkspace(query.branch) : this.artifacts;
+    return queryArtifacts(Array.from(workspace.values()), query);
+  }
+  
+  /**
+   * Delete artifact. Leaves a tombstone: the artifact is hidden from default
+   * queries but its history, commits and audit links are kept. Commit the
+   * tombstone to record the deletion on the branch.
    */
-  async deleteArtifact(id: string, deletedBy: string): Promise<void> {
+  async deleteArtifact(id: string, deletedBy: string, reason?: string): Promise<void> {
     const artifact = this.artifacts.get(id);
     
-    if (!artifact) {
+    if (!artifact || artifact.deletedAt) {
       throw new Error(`Artifact "${id}" not found`);
     }
     
-    this.artifacts.delete(id);
+    const context = { artifact, deletedBy, reason };
+    const audit = { actor: deletedBy, target: id, targetType: 'artifact' as const };
+    await this.runPreHooks('deleteArtifact', context, audit);
+    
+    const tombstone: VersionedArtifact = {
+      ...artifact,
+      deletedAt: new Date(),
+      deletedBy,
+      deletionReason: reason,
+    };
+    this.artifacts.set(id, tombstone);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.ARTIFACT_DELETED,
       actor: deletedBy,
       target: id,
       targetType: 'artifact',
-      details: { name: artifact.name },
+      details: { name: artifact.name, version: artifact.version, reason, tombstone: true },
     });
+    
+    await this.runPostHooks('deleteArtifact', tombstone, context, audit);
   }
   
-  // ==========================================================================
-  // Commit Management
-  // ==========================================================================
-  
   /**
-   * Create a commit
+   * Restore a deleted artifact on the current branch
    */
-  async commit(
-    artifactId: string,
-    message: string,
-    author: string,
-    changes?: any[]
-  ): Promise<Commit> {
-    const artifact = this.artifacts.get(artifactId);
+  async restoreArtifact(id: string, restoredBy: string): Promise<VersionedArtifact> {
+    const artifact = this.artifacts.get(id);
     
-    if (!artifact) {
-      throw new Error(`Artifact "${artifactId}" not found`);
+    if (!artifact?.deletedAt) {
+      throw new Error(`Artifact "${id}" is not deleted`);
     }
     
-    const branch = this.branchManager.getBranch(
-      this.branchManager.getCurrentBranch()
-    );
+    const { deletedAt, deletedBy, deletionReason, ...record } = artifact;
+    const restored: VersionedArtifact = { ...record, updatedAt: new Date() };
     
-    const commit: Commit = {
+    this.artifacts.set(id, restored);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.ARTIFACT_RESTORED,
+      actor: restoredBy,
+      target: id,
+      targetType: 'artifact',
+      details: { name: artifact.name, deletedAt, deletedBy, deletionReason },
+    });
+    
+    return restored;
+  }
+  
+  /**
+   * Get deleted artifacts (tombstones) on the current branch
+   */
+  getDeletedArtifacts(): VersionedArtifact[] {
+    return Array.from(this.artifacts.values()).filter(a => a.deletedAt);
+  }
+  
+  /**
+   * Place a legal hold on an artifact. Held artifacts cannot be purged.
+   */
+  async placeLegalHold(artifactId: string, placedBy: string, reason: string): Promise<LegalHold> {
+    if (!this.artifacts.has(artifactId) && this.getCommitHistory(artifactId).length === 0) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    const hold: LegalHold = {
       id: uuidv4(),
       artifactId,
-      version: artifact.version,
-      message,
-      author,
-      signature: '', // Will be set below
-      parentCommits: branch?.headCommit ? [branch.headCommit] : [],
-      timestamp: new Date(),
-      changes: changes || [],
-      environment: {
-        nodeVersion: process.version,
-        dependencies: {}, // Would capture actual dependencies
-        platform: process.platform,
-      },
+      reason,
+      placedBy,
+      placedAt: new Date(),
     };
     
-    // Sign commit
-    commit.signature = signCommit({
-      artifactId: commit.artifactId,
-      version: commit.version,
-      message: commit.message,
-      author: commit.author,
-      parentCommits: commit.parentCommits,
-      timestamp: commit.timestamp.toISOString(),
-      content: artifact.content,
-    }, this.signingKey);
-    
-    // Validate
-    const validated = CommitSchema.safeParse(commit);
+    const validated = LegalHoldSchema.safeParse(hold);
     if (!validated.success) {
-      throw new Error(`Invalid commit: ${validated.error.message}`);
+      throw new Error(`Invalid legal hold: ${validated.error.message}`);
     }
     
-    this.commits.set(commit.id, commit);
+    this.legalHolds.set(hold.id, hold);
     
-    // Update branch head
-    await this.branchManager.updateHeadCommit(
-      this.branchManager.getCurrentBranch(),
-      commit.id,
-      author
-    );
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.LEGAL_HOLD_PLACED,
+      actor: placedBy,
+      target: artifactId,
+      targetType: 'artifact',
+      details: { holdId: hold.id, reason },
+    });
+    
+    return hold;
+  }
+  
+  /**
+   * Release a legal hold. The hold record is kept.
+   */
+  async releaseLegalHold(holdId: string, releasedBy: string, reason: string): Promise<LegalHold> {
+    const hold = this.legalHolds.get(holdId);
+    
+    if (!hold) {
+      throw new Error(`Legal hold "${holdId}" not found`);
+    }
+    
+    if (hold.releasedAt) {
+      throw new Error(`Legal hold "${holdId}" is already released`);
+    }
+    
+    hold.releasedBy = releasedBy;
+    hold.releasedAt = new Date();
+    hold.releaseReason = reason;
+    this.legalHolds.set(holdId, hold);
     
-    // Audit log
     await this.auditLog.log({
-      action: AUDIT_ACTIONS.COMMIT_CREATED,
-      actor: author,
-      target: commit.id,
-      targetType: 'commit',
-      details: { artifactId, version: commit.version, message },
+      action: AUDIT_ACTIONS.LEGAL_HOLD_RELEASED,
+      actor: releasedBy,
+      target: hold.artifactId,
+      targetType: 'artifact',
+      details: { holdId, reason },
     });
     
-    return commit;
+    return hold;
   }
   
   /**
-   * Get commit by ID
+   * Get legal holds for an artifact (active only unless includeReleased)
    */
-  getCommit(id: string): Commit | undefined {
-    return this.commits.get(id);
+  getLegalHolds(artifactId?: string, includeReleased: boolean = false): LegalHold[] {
+    return Array.from(this.legalHolds.values()).filter(h =>
+      (!artifactId || h.artifactId === artifactId) && (includeReleased || !h.releasedAt)
+    );
   }
   
   /**
-   * Get commit history for artifact
+   * Permanently destroy a deleted artifact's content on every branch.
+   * Only allowed once the tombstone is older than the retention period
+   * and while no legal hold is active. Commit records and artifact
+   * metadata are kept so the history stays verifiable.
    */
-  getCommitHistory(artifactId: string): Commit[] {
-    return Array.from(this.commits.values())
-      .filter(c => c.artifactId === artifactId)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  async purgeArtifact(id: string, purgedBy: string, reason: string): Promise<PurgeRecord> {
+    const artifact = this.artifacts.get(id);
+    
+    if (!artifact?.deletedAt) {
+      throw new Error(`Artifact "${id}" must be deleted before it can be purged`);
+    }
+    
+    const holds = this.getLegalHolds(id);
+    if (holds.length > 0) {
+      throw new Error(`Artifact "${id}" is under legal hold (${holds.map(h => h.reason).join('; ')})`);
+    }
+    
+    const purgeableAt = new Date(artifact.deletedAt);
+    purgeableAt.setFullYear(purgeableAt.getFullYear() + this.config.retentionYears);
+    
+    if (new Date() < purgeableAt) {
+      throw new Error(
+        `Artifact "${id}" is within its ${this.config.retentionYears}-year retention period until ${purgeableAt.toISOString()}`
+      );
+    }
+    
+    // Content hashes used by this artifact, minus any shared with other artifacts
+    const own = new Set<string>();
+    const shared = new Set<string>();
+    
+    for (const commit of this.commits.values()) {
+      for (const [artifactId, artifactHash] of Object.entries(commit.tree)) {
+        const snapshot = this.objects.get<ArtifactSnapshot>(artifactHash);
+        if (snapshot) (artifactId === id ? own : shared).add(snapshot.contentHash);
+      }
+    }
+    
+    const contentHashes = Array.from(own).filter(hash => !shared.has(hash));
+    contentHashes.forEach(hash => this.objects.delete(hash));
+    
+    for (const branchName of this.workspaces.keys()) {
+      this.openWorkspace(branchName).delete(id);
+    }
+    
+    const record: PurgeRecord = {
+      artifactId: id,
+      name: artifact.name,
+      purgedBy,
+      purgedAt: new Date(),
+      reason,
+      contentHashes,
+    };
+    
+    const validated = PurgeRecordSchema.safeParse(record);
+    if (!validated.success) {
+      throw new Error(`Invalid purge record: ${validated.error.message}`);
+    }
+    
+    this.purged.set(id, record);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.ARTIFACT_PURGED,
+      actor: purgedBy,
+      target: id,
+      targetType: 'artifact',
+      details: { name: artifact.name, reason, deletedAt: artifact.deletedAt, objects: contentHashes.length },
+    });
+    
+    return record;
+  }
+  
+  /**
+   * Get the purge record of an artifact
+   */
+  getPurgeRecord(artifactId: string): PurgeRecord | undefined {
+    return this.purged.get(artifactId);
   }
   
   // ==========================================================================
-  // Branch Management
+  // Dependencies
   // ==========================================================================
   
   /**
-   * Create a new branch
+   * Build the dependency graph of the artifacts on a branch (current branch if omitted)
    */
-  async createBranch(
-    name: string,
-    createdBy: string,
-    baseBranch?: string
-  ): Promise<void> {
-    await this.branchManager.createBranch(name, createdBy, baseBranch);
+  getDependencyGraph(branch?: string): DependencyGraph {
+    return new DependencyGraph(this.getArtifacts({ branch }));
+  }
+  
+  /**
+   * Get the artifacts that depend on an artifact, e.g. the workflows using a prompt
+   */
+  getDependents(
+    artifactId: string,
+    options?: { type?: ArtifactType; transitive?: boolean; branch?: string }
+  ): VersionedArtifact[] {
+    return this.getDependencyGraph(options?.branch).getDependents(artifactId, options);
+  }
+  
+  /**
+   * Analyze the impact of a proposed update before it is made: the version
+   * it would get and the dependents whose declared ranges it would break
+   */
+  analyzeImpact(
+    artifactId: string,
+    updates: { content?: any; version?: string },
+    branch?: string
+  ): DependencyImpact {
+    const artifact = this.getArtifact(artifactId, branch);
+    
+    if (!artifact) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    const proposedVersion = updates.version || detectVersionBump(
+      artifact.type,
+      artifact.version,
+      artifact.content,
+      updates.content !== undefined ? updates.content : artifact.content,
+      this.versionRules
+    ).newVersion;
+    
+    return this.getDependencyGraph(branch).analyzeImpact(artifactId, proposedVersion);
+  }
+  
+  // ==========================================================================
+  // Prompt Templates
+  // ==========================================================================
+  
+  /**
+   * Get a prompt artifact, now or at a historical selector
+   */
+  private requirePrompt(artifactId: string, selector?: ArtifactSelector): VersionedArtifact {
+    const artifact = selector ? this.getArtifactAt(artifactId, selector) : this.artifacts.get(artifactId);
+    
+    if (!artifact) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    if (artifact.type !== 'prompt') {
+      throw new Error(`Artifact "${artifactId}" is not a prompt`);
+    }
+    
+    return artifact;
+  }
+  
+  /**
+   * Render a prompt with variable values (current version if no selector)
+   */
+  renderPrompt(artifactId: string, values: Record<string, any>, selector?: ArtifactSelector): string {
+    return renderPrompt(this.requirePrompt(artifactId, selector).content, values);
+  }
+  
+  /**
+   * Diff the variables of two versions of a prompt (current version if "to" is omitted)
+   */
+  diffPromptVariables(artifactId: string, from: ArtifactSelector, to?: ArtifactSelector): PromptVariableDiff {
+    return diffPromptVariables(
+      this.requirePrompt(artifactId, from).content,
+      this.requirePrompt(artifactId, to).content
+    );
+  }
+  
+  // ==========================================================================
+  // Commit Management
+  // ==========================================================================
+  
+  /**
+   * Create a commit
+   */
+  async commit(
+    artifactId: string,
+    message: string,
+    author: string
+  ): Promise<Commit> {
+    return this.commitArtifacts([artifactId], message, author);
+  }
+  
+  /**
+   * Commit several artifacts atomically under one signature.
+   * Either every artifact advances on the branch or none does.
+   */
+  async commitArtifacts(
+    artifactIds: string[],
+    message: string,
+    author: string
+  ): Promise<Commit> {
+    const ids = Array.from(new Set(artifactIds));
+    
+    if (ids.length === 0) {
+      throw new Error('At least one artifact is required to commit');
+    }
+    
+    // Resolve everything up front so a missing artifact commits nothing
+    const artifacts = ids.map(id => {
+      const artifact = this.artifacts.get(id);
+      if (!artifact) {
+        throw new Error(`Artifact "${id}" not found`);
+      }
+      return artifact;
+    });
+    
+    // Refuse to commit artifacts that take part in a dependency cycle
+    const graph = this.getDependencyGraph();
+    for (const cycle of graph.findCycles()) {
+      if (cycle.some(id => ids.includes(id))) {
+        throw new Error(`Cannot commit: dependency cycle ${graph.describeCycle(cycle)}`);
+      }
+    }
+    
+    const branchName = this.branchManager.getCurrentBranch();
+    const branch = this.branchManager.getBranch(branchName);
+    const parentTree = this.readTree(branch?.headCommit || null);
+    const tree = { ...parentTree };
+    const changes: Change[] = [];
+    
+    for (const artifact of artifacts) {
+      // Diff against the last committed content of this artifact on the branch
+      const previousContent = parentTree[artifact.id]
+        ? this.loadSnapshot(parentTree[artifact.id]).content
+        : undefined;
+      
+      changes.push(...diffContent(previousContent, artifact.content)
+        .map(c => ({ ...c, artifactId: artifact.id })));
+      tree[artifact.id] = this.storeArtifact(artifact).artifactHash;
+    }
+    
+    const commit = await this.recordCommit({
+      branch: branchName,
+      artifactIds: ids,
+      tree,
+      parentCommits: branch?.headCommit ? [branch.headCommit] : [],
+      message,
+      author,
+      changes,
+    });
+    
+    return commit;
+  }
+  
+  /**
+   * Build and sign a commit, store it and advance the branch head to it.
+   * Every path that makes a commit
+   * goes through here, so the commit hooks see all of them.
+   */
+  private async recordCommit(params: {
+    branch: string;
+    artifactIds: string[];
+    tree: Record<string, string>;
+    parentCommits: string[];
+    message: string;
+    author: string;
+    changes: Change[];
+  }): Promise<Commit> {
+    for (const artifactId of params.artifactIds) {
+      if (!this.objects.has(params.tree[artifactId])) {
+        throw new Error(`Artifact "${artifactId}" is missing from the commit tree`);
+      }
+    }
+    
+    const [artifactId] = params.artifactIds;
+    const snapshot = this.objects.get<ArtifactSnapshot>(params.tree[artifactId])!;
+    const snapshots = this.loadTree(params.tree);
+    const context = {
+      branch: params.branch,
+      artifacts: params.artifactIds.map(id => snapshots.get(id)!),
+      message: params.message,
+      author: params.author,
+    };
+    const audit = { actor: params.author, target: params.branch, targetType: 'branch' as const };
+    await this.runPreHooks('commit', context, audit);
+    
+    const parentTree = this.readTree(params.parentCommits[0] || null);
+    this.assertValidWorkflows(params.artifactIds, snapshots, parentTree);
+    this.assertToolCompatibility(params.branch, parentTree, params.tree);
+    this.assertCleanWorkspace(params.branch, parentTree, params.tree);
+    const lockfiles = this.lockWorkflows(params.artifactIds, params.tree, snapshots);
+    
+    const commit: Commit = {
+      id: uuidv4(),
+      artifactId,
+      artifactIds: params.artifactIds,
+      version: snapshot.version,
+      message: params.message,
+      author: params.author,
+      signature: '', // Will be set below
+      contentHash: snapshot.contentHash,
+      artifactHash: params.tree[artifactId],
+      tree: params.tree,
+      lockfiles,
+      parentCommits: params.parentCommits,
+      timestamp: new Date(),
+      changes: params.changes,
+      environment: {
+        nodeVersion: process.version,
+        dependencies: {}, // Would capture actual dependencies
+        platform: process.platform,
+      },
+    };
+    
+    // Sign commit
+    commit.signature = signCommit(this.commitSignatureData(commit), this.signingKey);
+    
+    // Validate
+    const validated = CommitSchema.safeParse(commit);
+    if (!validated.success) {
+      throw new Error(`Invalid commit: ${validated.error.message}`);
+    }
+    
+    // Store the commit before moving the ref, so a crash in between leaves
+    // an unreferenced commit rather than a ref to a missing one
+    this.branchManager.assertCanUpdateHead(params.branch, params.author);
+    this.commits.set(commit.id, commit);
+    await this.branchManager.updateHeadCommit(params.branch, commit.id, params.author);
+    
+    // Audit log
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.COMMIT_CREATED,
+      actor: params.author,
+      target: commit.id,
+      targetType: 'commit',
+      details: {
+        artifactId: commit.artifactId,
+        artifactIds: commit.artifactIds,
+        version: commit.version,
+        message: commit.message,
+        changeCount: commit.changes.length,
+      },
+    });
+    
+    await this.runPostHooks('commit', commit, context, audit);
+    
+    return commit;
+  }
+  
+  /**
+   * Load every artifact in a tree
+   */
+  private loadTree(tree: Record<string, string>): Map<string, VersionedArtifact> {
+    return new Map(Object.entries(tree).map(([id, hash]) => [id, this.loadSnapshot(hash)]));
+  }
+  
+  /**
+   * Reject committing workflows whose agent graph is broken. Tool
+   * references are checked against the tools in the same tree. Workflows
+   * that use a committed artifact by its old or new name (e.g. a tool that
+   * was renamed or deleted) are checked too.
+   */
+  private assertValidWorkflows(
+    artifactIds: string[],
+    snapshots: Map<string, VersionedArtifact>,
+    previousTree: Record<string, string>
+  ): void {
+    const live = Array.from(snapshots.values()).filter(a => !a.deletedAt);
+    const tools = live.filter(a => a.type === 'tool').map(a => a.name);
+    
+    const changedNames = new Set<string>();
+    for (const id of artifactIds) {
+      const artifact = snapshots.get(id);
+      if (artifact) changedNames.add(artifact.name);
+      if (previousTree[id]) changedNames.add(this.loadSnapshot(previousTree[id]).name);
+    }
+    
+    const dependents = live.filter(a => a.type === 'workflow' && (
+      (a.content?.nodes || []).some((node: any) => (node?.tools || []).some((tool: string) => changedNames.has(tool))) ||
+      a.dependencies.some(d => changedNames.has(d.name))
+    ));
+    
+    const workflows = new Set([...artifactIds.map(id => snapshots.get(id)), ...dependents]);
+    
+    for (const artifact of workflows) {
+      if (artifact?.type !== 'workflow' || artifact.deletedAt) continue;
+      
+      const result = validateWorkflowGraph(artifact.content, { tools });
+      if (!result.valid) {
+        throw new Error(`Workflow "${artifact.name}" is invalid: ${describeWorkflowErrors(result)}`);
+      }
+    }
+    
+    // Committed workflows are locked, which resolves their dependencies;
+    // dependent workflows are not, so check theirs still resolve: none went
+    // missing or moved out of the declared range
+    const graph = new DependencyGraph(live);
+    for (const workflow of dependents) {
+      const broken = graph.getResolvedDependencies(workflow.id).find(d => d.status !== 'resolved');
+      if (broken) {
+        throw new Error(
+          `Workflow "${workflow.name}" is invalid: dependency "${formatDependencyReference(broken.reference)}" is ${broken.status}`
+        );
+      }
+    }
+  }
+  
+  /**
+   * Validate a workflow's agent graph, checking tool references against the
+   * tools on the same branch (current branch if omitted)
+   */
+  validateWorkflow(artifactId: string, branch?: string): WorkflowValidationResult {
+    const artifact = this.getArtifact(artifactId, branch);
+    
+    if (!artifact) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    if (artifact.type !== 'workflow') {
+      throw new Error(`Artifact "${artifactId}" is not a workflow`);
+    }
+    
+    const tools = this.getArtifacts({ type: 'tool', branch }).map(a => a.name);
+    return validateWorkflowGraph(artifact.content, { tools });
+  }
+  
+  /**
+   * Generate and store lockfiles for the committed workflows, resolving
+   * dependencies against the committed tree
+   */
+  private lockWorkflows(
+    artifactIds: string[],
+    tree: Record<string, string>,
+    snapshots: Map<string, VersionedArtifact>
+  ): Record<string, string> {
+    const live = Array.from(snapshots.values()).filter(a => !a.deletedAt);
+    const workflows = artifactIds.filter(id => snapshots.get(id)?.type === 'workflow' && !snapshots.get(id)!.deletedAt);
+    
+    if (workflows.length === 0) return {};
+    
+    const graph = new DependencyGraph(live);
+    const lockfiles: Record<string, string> = {};
+    
+    for (const workflowId of workflows) {
+      const lockfile = generateLockfile(graph, workflowId, id => tree[id]
+        ? { artifactHash: tree[id], contentHash: this.objects.get<ArtifactSnapshot>(tree[id])!.contentHash }
+        : undefined);
+      lockfiles[workflowId] = this.objects.put(lockfile);
+    }
+    
+    return lockfiles;
+  }
+  
+  /**
+   * Get the lockfile stored with a commit for one of its workflows
+   * (the commit's primary artifact if omitted)
+   */
+  getLockfile(commitId: string, workflowId?: string): Lockfile | undefined {
+    const commit = this.commits.get(commitId);
+    
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    const hash = commit.lockfiles[workflowId || commit.artifactId];
+    return hash ? this.loadLockfile(hash) : undefined;
+  }
+  
+  private loadLockfile(hash: string): Lockfile {
+    const lockfile = this.objects.get(hash);
+    
+    if (!lockfile) {
+      throw new Error(`Lockfile "${hash}" is missing`);
+    }
+    
+    return { ...lockfile, generatedAt: new Date(lockfile.generatedAt) };
+  }
+  
+  /**
+   * Data covered by a commit signature. The tree transitively covers the
+   * content of every artifact through its object hashes, so one signature
+   * covers the whole set of committed artifacts.
+   */
+  private commitSignatureData(commit: Commit): CommitSignatureData {
+    return {
+      artifactId: commit.artifactId,
+      version: commit.version,
+      message: commit.message,
+      author: commit.author,
+      parentCommits: commit.parentCommits,
+      timestamp: commit.timestamp.toISOString(),
+      content: {
+        contentHash: commit.contentHash,
+        artifactIds: commit.artifactIds,
+        tree: commit.tree,
+        lockfiles: commit.lockfiles,
+      },
+    };
+  }
+  
+  /**
+   * Verify a commit's signature against its recorded data
+   */
+  verifyCommit(commitId: string): boolean {
+    const commit = this.commits.get(commitId);
+    
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    return verifyCommitSignature(this.commitSignatureData(commit), commit.signature, this.signingKey);
+  }
+  
+  /**
+   * Get commit by ID
+   */
+  getCommit(id: string): Commit | undefined {
+    return this.commits.get(id);
+  }
+  
+  /**
+   * Store an artifact record and its content in the object store
+   */
+  private storeArtifact(artifact: VersionedArtifact): { contentHash: string; artifactHash: string } {
+    const { content, ...record } = artifact;
+    const contentHash = this.objects.put(content);
+    const snapshot: ArtifactSnapshot = { ...record, contentHash };
+    const artifactHash = this.objects.put(snapshot);
+    
+    return { contentHash, artifactHash };
+  }
+  
+  /**
+   * Rebuild an artifact exactly as it was stored
+   */
+  private loadSnapshot(artifactHash: string): VersionedArtifact {
+    const snapshot = this.objects.get(artifactHash);
+    
+    if (snapshot && this.purged.has(snapshot.id)) {
+      throw new Error(`Content of artifact "${snapshot.id}" was purged`);
+    }
+    
+    if (!snapshot || !this.objects.has(snapshot.contentHash)) {
+      throw new Error(`Objects for artifact snapshot "${artifactHash}" are missing`);
+    }
+    
+    const { contentHash, ...record } = snapshot;
+    
+    return {
+      ...record,
+      dependencies: record.dependencies || [],
+      content: this.objects.get(contentHash),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      deletedAt: record.deletedAt ? new Date(record.deletedAt) : undefined,
+    };
+  }
+  
+  /**
+   * Get the artifact tree recorded by a commit (empty for no commit).
+   * Purged artifacts are left out, so they drop out of later commits.
+   */
+  private readTree(commitId: string | null): Record<string, string> {
+    if (!commitId) return {};
+    
+    const commit = this.commits.get(commitId);
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    if (this.purged.size === 0) return commit.tree;
+    
+    const tree: Record<string, string> = {};
+    for (const [artifactId, artifactHash] of Object.entries(commit.tree)) {
+      if (!this.purged.has(artifactId)) tree[artifactId] = artifactHash;
+    }
+    return tree;
+  }
+  
+  /**
+   * Get the artifacts whose state a commit changed relative to its first parent
+   */
+  private touchedArtifacts(commit: Commit): string[] {
+    const parentTree = this.readTree(commit.parentCommits[0] || null);
+    return Object.keys(commit.tree).filter(id => commit.tree[id] !== parentTree[id]);
+  }
+  
+  /**
+   * Get the exact content recorded by a commit
+   */
+  getCommitContent(commitId: string): any {
+    const commit = this.commits.get(commitId);
+    
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    if (!this.objects.has(commit.contentHash)) {
+      throw new Error(`Object "${commit.contentHash}" for commit "${commitId}" is missing`);
+    }
+    
+    return this.objects.get(commit.contentHash);
+  }
+  
+  /**
+   * Get the content-addressable object store
+   */
+  getObjectStore(): ObjectStore {
+    return this.objects;
+  }
+  
+  /**
+   * Get every artifact recorded by a commit as it was committed
+   */
+  getCommitArtifacts(commitId: string): VersionedArtifact[] {
+    const commit = this.commits.get(commitId);
+    
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    return commit.artifactIds.map(id => this.loadSnapshot(commit.tree[id]));
+  }
+  
+  /**
+   * Get the changes a commit made, grouped by artifact
+   */
+  getCommitChanges(commitId: string): Record<string, Change[]> {
+    const commit = this.commits.get(commitId);
+    
+    if (!commit) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    const grouped: Record<string, Change[]> = {};
+    
+    for (const change of commit.changes) {
+      const artifactId = change.artifactId || commit.artifactId;
+      (grouped[artifactId] = grouped[artifactId] || []).push(change);
+    }
+    
+    return grouped;
+  }
+  
+  /**
+   * Get commit history for artifact: the commits reachable from a branch
+   * head or tag that touched it, newest first
+   */
+  getCommitHistory(artifactId: string): Commit[] {
+    const heads = [
+      ...this.branchManager.getAllBranches().map(b => b.headCommit),
+      ...this.listTags().map(t => t.commitId),
+    ];
+    
+    return Array.from(this.commitGraph.reachable(heads), id => this.commits.get(id)!)
+      .filter(c => c.artifactIds.includes(artifactId) || this.touchedArtifacts(c).includes(artifactId))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+  
+  // ==========================================================================
+  // Time Travel
+  // ==========================================================================
+  
+  /**
+   * Get an artifact as it was at a commit, at a version, or as of a date
+   */
+  getArtifactAt(artifactId: string, selector: ArtifactSelector): VersionedArtifact | undefined {
+    if ('version' in selector) {
+      for (const commit of this.getCommitHistory(artifactId)) {
+        const artifact = this.loadSnapshot(commit.tree[artifactId]);
+        if (artifact.version === selector.version) {
+          return artifact;
+        }
+      }
+      return undefined;
+    }
+    
+    let commitId: string | null | undefined;
+    
+    if ('commitId' in selector) {
+      commitId = selector.commitId;
+    } else if ('tag' in selector) {
+      commitId = this.requireTag(selector.tag).commitId;
+    } else {
+      commitId = this.branchManager.getHeadAt(selector.branch || this.config.defaultBranch, selector.asOf);
+    }
+    
+    if (!commitId) return undefined;
+    
+    const artifactHash = this.readTree(commitId)[artifactId];
+    return artifactHash ? this.loadSnapshot(artifactHash) : undefined;
+  }
+  
+  /**
+   * Get a repository-wide view as of a date: branch heads, the artifacts
+   * live on a branch (default branch if omitted) and pinned environments
+   */
+  getRepositoryAt(asOf: Date, branch: string = this.config.defaultBranch): RepositorySnapshot {
+    const branches: RepositorySnapshot['branches'] = [];
+    
+    for (const name of this.branchManager.getKnownBranchNames()) {
+      const headCommit = this.branchManager.getHeadAt(name, asOf);
+      if (headCommit !== undefined) {
+        branches.push({ name, headCommit });
+      }
+    }
+    
+    const head = this.branchManager.getHeadAt(branch, asOf);
+    const artifacts = Object.values(this.readTree(head || null))
+      .map(hash => this.loadSnapshot(hash));
+    
+    const environments = Array.from(this.environments.values())
+      .filter(e => e.createdAt <= asOf);
+    
+    return { asOf, branch, branches, artifacts, environments };
+  }
+  
+  // ==========================================================================
+  // Merging
+  // ==========================================================================
+  
+  /**
+   * Merge a source branch into a target branch using a three-way merge
+   * against their merge-base. Fast-forwards when possible unless disabled.
+   * If any edits conflict, nothing is committed and a pending merge is kept
+   * until its conflicts are resolved and the merge is completed.
+   */
+  async merge(
+    sourceBranch: string,
+    targetBranch: string,
+    mergedBy: string,
+    options?: { message?: string; fastForward?: boolean; pullRequestId?: string }
+  ): Promise<MergeResult> {
+    const source = this.branchManager.getBranch(sourceBranch);
+    const target = this.branchManager.getBranch(targetBranch);
+    
+    if (!source || !target) {
+      throw new Error('One or both branches not found');
+    }
+    
+    const sourceHead = source.headCommit;
+    const targetHead = target.headCommit;
+    
+    if (!sourceHead || (targetHead && this.commitGraph.isAncestor(sourceHead, targetHead))) {
+      return { status: 'up-to-date', conflicts: [] };
+    }
+    
+    const context = { sourceBranch, targetBranch, mergedBy };
+    const audit = { actor: mergedBy, target: targetBranch, targetType: 'branch' as const };
+    await this.runPreHooks('merge', context, audit);
+    
+    const result = await this.mergeHeads(sourceBranch, targetBranch, sourceHead, targetHead, mergedBy, options);
+    
+    await this.runPostHooks('merge', result, context, audit);
+    
+    return result;
+  }
+  
+  /**
+   * Fast-forward the target branch or three-way merge the source head into it
+   */
+  private async mergeHeads(
+    sourceBranch: string,
+    targetBranch: string,
+    sourceHead: string,
+    targetHead: string | null,
+    mergedBy: string,
+    options?: { message?: string; fastForward?: boolean; pullRequestId?: string }
+  ): Promise<MergeResult> {
+    if (options?.fastForward !== false && (!targetHead || this.commitGraph.isAncestor(targetHead, sourceHead))) {
+      const previousTree = this.readTree(targetHead);
+      this.assertToolCompatibility(targetBranch, previousTree, this.readTree(sourceHead));
+      this.assertCleanWorkspace(targetBranch, previousTree, this.readTree(sourceHead));
+      await this.branchManager.updateHeadCommit(targetBranch, sourceHead, mergedBy);
+      this.refreshWorkspace(targetBranch, previousTree, this.readTree(sourceHead));
+      
+      await this.auditLog.log({
+        action: AUDIT_ACTIONS.BRANCH_MERGED,
+        actor: mergedBy,
+        target: targetBranch,
+        targetType: 'branch',
+        details: { sourceBranch, targetBranch, fastForward: true, headCommit: sourceHead },
+      });
+      
+      return { status: 'fast-forward', commit: this.commits.get(sourceHead), conflicts: [] };
+    }
+    
+    const mergeBase = this.commitGraph.mergeBase(sourceHead, targetHead);
+    const baseTree = this.readTree(mergeBase);
+    const ourTree = this.readTree(targetHead);
+    const theirTree = this.readTree(sourceHead);
+    
+    const pending: PendingMerge = {
+      id: uuidv4(),
+      sourceBranch,
+      targetBranch,
+      sourceHead,
+      targetHead,
+      mergeBase,
+      pullRequestId: options?.pullRequestId,
+      message: options?.message || `Merge branch '${sourceBranch}' into ${targetBranch}`,
+      tree: { ...ourTree },
+      artifacts: {},
+      conflicts: [],
+      createdBy: mergedBy,
+      createdAt: new Date(),
+    };
+    
+    for (const artifactId of new Set([...Object.keys(ourTree), ...Object.keys(theirTree)])) {
+      const base = baseTree[artifactId];
+      const ours = ourTree[artifactId];
+      const theirs = theirTree[artifactId];
+      
+      if (theirs === ours || theirs === base) continue;
+      
+      if (ours === base) {
+        pending.tree[artifactId] = theirs;
+        continue;
+      }
+      
+      // Both sides changed the artifact: merge its content
+      const ourArtifact = this.loadSnapshot(ours);
+      const theirArtifact = this.loadSnapshot(theirs);
+      const baseContent = base ? this.loadSnapshot(base).content : undefined;
+      
+      // One side deleted the artifact: the deletion stands unless the other
+      // side changed its content, which is a delete/modify conflict
+      if (!ourArtifact.deletedAt !== !theirArtifact.deletedAt) {
+        const deleted = ourArtifact.deletedAt ? 'ours' : 'theirs';
+        const [tombstone, live] = deleted === 'ours' ? [ourArtifact, theirArtifact] : [theirArtifact, ourArtifact];
+        
+        if (deepEqual(live.content, base ? baseContent : tombstone.content)) {
+          pending.tree[artifactId] = deleted === 'ours' ? ours : theirs;
+          continue;
+        }
+        
+        pending.artifacts[artifactId] = { ours: ourArtifact, theirs: theirArtifact, merged: live.content };
+        pending.conflicts.push(createDeleteConflict(artifactId, deleted, baseContent, ourArtifact, theirArtifact));
+        continue;
+      }
+      
+      const result = mergeContent(baseContent, ourArtifact.content, theirArtifact.content);
+      
+      pending.artifacts[artifactId] = { ours: ourArtifact, theirs: theirArtifact, merged: result.merged };
+      pending.conflicts.push(...createConflicts(artifactId, result.conflicts));
+    }
+    
+    if (pending.conflicts.length > 0) {
+      this.pendingMerges.set(pending.id, pending);
+      
+      await this.auditLog.log({
+        action: AUDIT_ACTIONS.MERGE_CONFLICT_DETECTED,
+        actor: mergedBy,
+        target: targetBranch,
+        targetType: 'branch',
+        details: {
+          mergeId: pending.id,
+          sourceBranch,
+          targetBranch,
+          conflicts: pending.conflicts.map(c => ({ artifactId: c.artifactId, path: c.path })),
+        },
+      });
+      
+      return { status: 'conflicts', mergeId: pending.id, conflicts: pending.conflicts };
+    }
+    
+    const commit = await this.finalizeMerge(pending, mergedBy);
+    return { status: 'merged', commit, conflicts: [] };
+  }
+  
+  /**
+   * Resolve a conflict in a pending merge
+   */
+  async resolveConflict(
+    mergeId: string,
+    conflictId: string,
+    resolution: ConflictResolution,
+    resolvedBy: string
+  ): Promise<MergeConflict> {
+    const pending = this.requirePendingMerge(mergeId);
+    const conflict = pending.conflicts.find(c => c.id === conflictId);
+    
+    if (!conflict) {
+      throw new Error(`Conflict "${conflictId}" not found in merge "${mergeId}"`);
+    }
+    
+    conflict.resolved = true;
+    conflict.resolution = resolution;
+    conflict.resolvedBy = resolvedBy;
+    conflict.resolvedAt = new Date();
+    this.pendingMerges.set(mergeId, pending);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.MERGE_CONFLICT_RESOLVED,
+      actor: resolvedBy,
+      target: pending.targetBranch,
+      targetType: 'branch',
+      details: {
+        mergeId,
+        conflictId,
+        artifactId: conflict.artifactId,
+        path: conflict.path,
+        resolution: typeof resolution === 'string' ? resolution : 'value',
+      },
+    });
+    
+    return conflict;
+  }
+  
+  /**
+   * Complete a pending merge once all conflicts are resolved
+   */
+  async completeMerge(mergeId: string, completedBy: string): Promise<Commit> {
+    const pending = this.requirePendingMerge(mergeId);
+    const unresolved = pending.conflicts.filter(c => !c.resolved);
+    
+    if (unresolved.length > 0) {
+      throw new Error(`Merge "${mergeId}" has ${unresolved.length} unresolved conflict(s)`);
+    }
+    
+    const context = { sourceBranch: pending.sourceBranch, targetBranch: pending.targetBranch, mergedBy: completedBy };
+    const audit = { actor: completedBy, target: pending.targetBranch, targetType: 'branch' as const };
+    await this.runPreHooks('merge', context, audit);
+    
+    const commit = await this.finalizeMerge(pending, completedBy);
+    this.pendingMerges.delete(mergeId);
+    
+    await this.runPostHooks('merge', { status: 'merged', commit, conflicts: [] }, context, audit);
+    
+    return commit;
+  }
+  
+  /**
+   * Abandon a pending merge
+   */
+  async abortMerge(mergeId: string, abortedBy: string): Promise<void> {
+    const pending = this.requirePendingMerge(mergeId);
+    this.pendingMerges.delete(mergeId);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.MERGE_ABORTED,
+      actor: abortedBy,
+      target: pending.targetBranch,
+      targetType: 'branch',
+      details: { mergeId, sourceBranch: pending.sourceBranch },
+    });
+  }
+  
+  /**
+   * Get a pending merge
+   */
+  getPendingMerge(mergeId: string): PendingMerge | undefined {
+    return this.pendingMerges.get(mergeId);
+  }
+  
+  /**
+   * Get all pending merges
+   */
+  getPendingMerges(): PendingMerge[] {
+    return Array.from(this.pendingMerges.values());
+  }
+  
+  private requirePendingMerge(mergeId: string): PendingMerge {
+    const pending = this.pendingMerges.get(mergeId);
+    if (!pending) {
+      throw new Error(`Merge "${mergeId}" not found`);
+    }
+    return pending;
+  }
+  
+  /**
+   * Block commits and fast-forwards onto the default branch that change a
+   * tool contract in a breaking way without a MAJOR version bump
+   */
+  private assertToolCompatibility(
+    targetBranch: string,
+    beforeTree: Record<string, string>,
+    afterTree: Record<string, string>
+  ): void {
+    if (targetBranch !== this.config.defaultBranch) return;
+    
+    const violations: string[] = [];
+    
+    for (const [artifactId, artifactHash] of Object.entries(afterTree)) {
+      const previousHash = beforeTree[artifactId];
+      if (!previousHash || previousHash === artifactHash) continue;
+      
+      const before = this.loadSnapshot(previousHash);
+      const after = this.loadSnapshot(artifactHash);
+      if (after.type !== 'tool') continue;
+      
+      const report = checkToolCompatibility(before.content, after.content);
+      if (report.compatible || parseVersion(after.version).major > parseVersion(before.version).major) continue;
+      
+      violations.push(
+        `tool "${after.name}" ${before.version} -> ${after.version}: ${report.breaking.map(c => c.message).join(', ')}`
+      );
+    }
+    
+    if (violations.length > 0) {
+      throw new Error(
+        `Update of "${targetBranch}" blocked: breaking tool contract changes without a MAJOR bump (${violations.join('; ')})`
+      );
+    }
+  }
+  
+  /**
+   * Check two versions of a tool for contract compatibility
+   */
+  checkToolCompatibility(artifactId: string, from: ArtifactSelector, to?: ArtifactSelector): ToolCompatibilityReport {
+    const before = this.getArtifactAt(artifactId, from);
+    const after = to ? this.getArtifactAt(artifactId, to) : this.artifacts.get(artifactId);
+    
+    if (!before || !after) {
+      throw new Error(`Artifact "${artifactId}" not found`);
+    }
+    
+    if (after.type !== 'tool') {
+      throw new Error(`Artifact "${artifactId}" is not a tool`);
+    }
+    
+    return checkToolCompatibility(before.content, after.content);
+  }
+  
+  /**
+   * Create the merge commit for a fully resolved merge
+   */
+  private async finalizeMerge(pending: PendingMerge, author: string): Promise<Commit> {
+    const source = this.branchManager.getBranch(pending.sourceBranch);
+    const target = this.branchManager.getBranch(pending.targetBranch);
+    
+    if (source?.headCommit !== pending.sourceHead || target?.headCommit !== pending.targetHead) {
+      throw new Error(`Branches moved since merge "${pending.id}" started; abort and merge again`);
+    }
+    
+    const ourTree = this.readTree(pending.targetHead);
+    const tree = { ...pending.tree };
+    
+    for (const [artifactId, entry] of Object.entries(pending.artifacts)) {
+      const conflicts = pending.conflicts.filter(c => c.artifactId === artifactId);
+      const content = applyResolutions(entry.merged, conflicts);
+      const deletion = conflicts.find(c => c.deleted);
+      
+      if (deletion) {
+        // Keep the tombstone, or revive the edited side with the resolved content
+        const [tombstone, live] = deletion.deleted === 'ours' ? [entry.ours, entry.theirs] : [entry.theirs, entry.ours];
+        tree[artifactId] = this.storeArtifact(deletion.resolution === deletion.deleted
+          ? tombstone
+          : this.mergedArtifact(live, live, content)).artifactHash;
+        continue;
+      }
+      
+      tree[artifactId] = this.storeArtifact(this.mergedArtifact(entry.ours, entry.theirs, content)).artifactHash;
+    }
+    
+    const touched = Object.keys(tree).filter(id => tree[id] !== ourTree[id]);
+    const artifactIds = touched.length > 0 ? touched : Object.keys(tree).slice(0, 1);
+    
+    if (artifactIds.length === 0) {
+      throw new Error('Nothing to merge');
+    }
+    
+    const changes: Change[] = [];
+    for (const id of touched) {
+      const before = ourTree[id] ? this.loadSnapshot(ourTree[id]).content : undefined;
+      const after = this.loadSnapshot(tree[id]).content;
+      changes.push(...diffContent(before, after).map(c => ({ ...c, artifactId: id })));
+    }
+    
+    const commit = await this.recordCommit({
+      branch: pending.targetBranch,
+      artifactIds,
+      tree,
+      parentCommits: [pending.targetHead!, pending.sourceHead].filter(Boolean) as string[],
+      message: pending.message,
+      author,
+      changes,
+    });
+    
+    this.refreshWorkspace(pending.targetBranch, ourTree, tree);
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.BRANCH_MERGED,
+      actor: author,
+      target: pending.targetBranch,
+      targetType: 'branch',
+      details: {
+        sourceBranch: pending.sourceBranch,
+        targetBranch: pending.targetBranch,
+        mergeCommit: commit.id,
+        mergeBase: pending.mergeBase,
+        resolvedConflicts: pending.conflicts.length,
+      },
+    });
+    
+    return commit;
+  }
+  
+  /**
+   * Build the merged artifact record. A result identical to one side keeps
+   * that side's version; otherwise the higher version is bumped.
+   */
+  private mergedArtifact(
+    ours: VersionedArtifact,
+    theirs: VersionedArtifact,
+    content: any
+  ): VersionedArtifact {
+    if (deepEqual(content, ours.content)) return ours;
+    if (deepEqual(content, theirs.content)) return theirs;
+    
+    const newer = compareVersions(theirs.version, ours.version) > 0 ? theirs : ours;
+    const bump = detectVersionBump(ours.type, newer.version, newer.content, content, this.versionRules);
+    
+    return {
+      ...ours,
+      content,
+      version: bump.newVersion,
+      updatedAt: new Date(),
+    };
+  }
+  
+  /**
+   * Artifacts whose uncommitted workspace edits a move of the branch from
+   * one tree to another would overwrite. An edit that already matches the
+   * new tree (e.g. the artifacts being committed) is not lost.
+   */
+  private uncommittedChanges(
+    branchName: string,
+    previousTree: Record<string, string>,
+    nextTree: Record<string, string>
+  ): string[] {
+    if (!this.workspaces.has(branchName)) return [];
+    const workspace = this.openWorkspace(branchName);
+    
+    return Object.keys(nextTree).filter(artifactId => {
+      if (previousTree[artifactId] === nextTree[artifactId]) return false;
+      
+      const current = workspace.get(artifactId);
+      if (!current) return false;
+      
+      const committed = previousTree[artifactId] ? this.loadSnapshot(previousTree[artifactId]) : undefined;
+      const incoming = this.objects.has(nextTree[artifactId]) ? this.loadSnapshot(nextTree[artifactId]) : undefined;
+      
+      return !deepEqual(current, committed) && !deepEqual(current, incoming);
+    });
+  }
+  
+  /**
+   * Refuse to move a branch over uncommitted workspace edits
+   */
+  private assertCleanWorkspace(
+    branchName: string,
+    previousTree: Record<string, string>,
+    nextTree: Record<string, string>
+  ): void {
+    const dirty = this.uncommittedChanges(branchName, previousTree, nextTree);
+    
+    if (dirty.length > 0) {
+      throw new Error(
+        `Branch "${branchName}" has uncommitted changes to ${dirty.map(id => `"${id}"`).join(', ')}; commit them or reset the workspace first`
+      );
+    }
+  }
+  
+  /**
+   * Update a branch workspace with artifacts that changed between two trees
+   */
+  private refreshWorkspace(
+    branchName: string,
+    previousTree: Record<string, string>,
+    nextTree: Record<string, string>
+  ): void {
+    if (!this.workspaces.has(branchName)) return;
+    const workspace = this.openWorkspace(branchName);
+    
+    for (const [artifactId, artifactHash] of Object.entries(nextTree)) {
+      if (previousTree[artifactId] !== artifactHash) {
+        workspace.set(artifactId, this.loadSnapshot(artifactHash));
+      }
+    }
+  }
+  
+  // ==========================================================================
+  // Cherry-pick and Revert
+  // ==========================================================================
+  
+  /**
+   * Reapply a commit's changes on top of a target branch
+   */
+  async cherryPick(
+    commitId: string,
+    targetBranch: string,
+    author: string
+  ): Promise<CherryPickResult> {
+    return this.replayCommit(commitId, targetBranch, author, 'cherry-pick');
+  }
+  
+  /**
+   * Undo a commit's changes with a new commit on a branch (current branch if omitted)
+   */
+  async revert(
+    commitId: string,
+    author: string,
+    branchName: string = this.branchManager.getCurrentBranch()
+  ): Promise<CherryPickResult> {
+    return this.replayCommit(commitId, branchName, author, 'revert');
+  }
+  
+  /**
+   * Apply a commit's changes (or their inverse) to a branch as a three-way
+   * merge against the branch's current content
+   */
+  private async replayCommit(
+    commitId: string,
+    branchName: string,
+    author: string,
+    mode: 'cherry-pick' | 'revert'
+  ): Promise<CherryPickResult> {
+    const original = this.commits.get(commitId);
+    
+    if (!original) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    const branch = this.branchManager.getBranch(branchName);
+    
+    if (!branch) {
+      throw new Error(`Branch "${branchName}" does not exist`);
+    }
+    
+    const parentTree = this.readTree(original.parentCommits[0] || null);
+    const ourTree = this.readTree(branch.headCommit);
+    const tree = { ...ourTree };
+    const changes: Change[] = [];
+    const conflicts: MergeConflict[] = [];
+    
+    for (const artifactId of this.touchedArtifacts(original)) {
+      const artifactChanges = original.changes
+        .filter(c => (c.artifactId || original.artifactId) === artifactId);
+      const before = parentTree[artifactId] ? this.loadSnapshot(parentTree[artifactId]) : undefined;
+      const after = this.loadSnapshot(original.tree[artifactId]);
+      const ours = ourTree[artifactId] ? this.loadSnapshot(ourTree[artifactId]) : undefined;
+      
+      if (mode === 'revert' && !before) {
+        throw new Error(`Cannot revert the creation of artifact "${artifactId}"`);
+      }
+      
+      const base = mode === 'cherry-pick' ? before?.content : after.content;
+      const theirs = mode === 'cherry-pick'
+        ? applyChanges(base, artifactChanges)
+        : applyChanges(base, invertChanges(artifactChanges));
+      const result = mergeContent(base, ours?.content, theirs);
+      
+      conflicts.push(...createConflicts(artifactId, result.conflicts));
+      
+      if (deepEqual(result.merged, ours?.content)) continue;
+      
+      const record = ours || after;
+      const bump = detectVersionBump(record.type, record.version, ours?.content, result.merged, this.versionRules);
+      tree[artifactId] = this.storeArtifact({
+        ...record,
+        content: result.merged,
+        version: ours ? this.releaseVersion(record.version, bump.newVersion, branchName) : after.version,
+        updatedAt: new Date(),
+      }).artifactHash;
+      
+      changes.push(...diffContent(ours?.content, result.merged).map(c => ({ ...c, artifactId })));
+    }
+    
+    if (conflicts.length > 0) {
+      return { status: 'conflicts', conflicts };
+    }
+    
+    const touched = Object.keys(tree).filter(id => tree[id] !== ourTree[id]);
+    
+    if (touched.length === 0) {
+      return { status: 'empty', conflicts: [] };
+    }
+    
+    const message = mode === 'cherry-pick'
+      ? `${original.message}\n\n(cherry picked from commit ${original.id})`
+      : `Revert "${original.message}"\n\nThis reverts commit ${original.id}.`;
+    
+    const commit = await this.recordCommit({
+      branch: branchName,
+      artifactIds: primaryFirst(touched, original.artifactId),
+      tree,
+      parentCommits: branch.headCommit ? [branch.headCommit] : [],
+      message,
+      author,
+      changes,
+    });
+    
+    this.refreshWorkspace(branchName, ourTree, tree);
+    
+    await this.auditLog.log({
+      action: mode === 'cherry-pick' ? AUDIT_ACTIONS.COMMIT_CHERRY_PICKED : AUDIT_ACTIONS.COMMIT_REVERTED,
+      actor: author,
+      target: commit.id,
+      targetType: 'commit',
+      details: { sourceCommit: original.id, branch: branchName, artifacts: touched },
+    });
+    
+    return { status: 'applied', commit, conflicts: [] };
+  }
+  
+  // ==========================================================================
+  // Tags and Releases
+  // ==========================================================================
+  
+  /**
+   * Create an immutable tag. Defaults to the current branch head.
+   * A message makes it an annotated tag signed with the repository key.
+   */
+  async createTag(
+    name: string,
+    params: {
+      createdBy: string;
+      commitId?: string;
+      message?: string;
+      releaseNotes?: string;
+    }
+  ): Promise<Tag> {
+    const commitId = params.commitId ||
+      this.branchManager.getBranch(this.branchManager.getCurrentBranch())?.headCommit;
+    
+    if (!commitId) {
+      throw new Error('Cannot tag a branch without commits');
+    }
+    
+    return this.tagManager.createTag({
+      name,
+      commitId,
+      createdBy: params.createdBy,
+      message: params.message,
+      releaseNotes: params.releaseNotes,
+      signature: params.message !== undefined
+        ? this.signTag(name, commitId, params.message, params.releaseNotes)
+        : undefined,
+    });
+  }
+  
+  private signTag(name: string, commitId: string, message: string, releaseNotes?: string): string {
+    return generateSignature({ name, commitId, message, releaseNotes }, this.signingKey);
+  }
+  
+  /**
+   * Verify an annotated tag's signature
+   */
+  verifyTag(name: string): boolean {
+    const tag = this.requireTag(name);
+    
+    if (!tag.annotation?.signature) {
+      return false;
+    }
+    
+    return tag.annotation.signature ===
+      this.signTag(tag.name, tag.commitId, tag.annotation.message, tag.releaseNotes);
+  }
+  
+  /**
+   * Get tag by name
+   */
+  getTag(name: string): Tag | undefined {
+    return this.tagManager.getTag(name);
+  }
+  
+  /**
+   * List tags
+   */
+  listTags(pattern?: RegExp): Tag[] {
+    return this.tagManager.listTags(pattern);
+  }
+  
+  /**
+   * Delete a tag (privileged; requires a reason)
+   */
+  async forceDeleteTag(name: string, deletedBy: string, reason: string): Promise<void> {
+    await this.tagManager.forceDeleteTag(name, deletedBy, reason);
+  }
+  
+  /**
+   * Move a tag to another commit (privileged; requires a reason)
+   */
+  async forceMoveTag(name: string, commitId: string, movedBy: string, reason: string): Promise<Tag> {
+    const tag = this.requireTag(name);
+    const signature = tag.annotation
+      ? this.signTag(name, commitId, tag.annotation.message, tag.releaseNotes)
+      : undefined;
+    
+    return this.tagManager.forceMoveTag(name, commitId, movedBy, reason, signature);
+  }
+  
+  private requireTag(name: string): Tag {
+    const tag = this.tagManager.getTag(name);
+    if (!tag) {
+      throw new Error(`Tag "${name}" does not exist`);
+    }
+    return tag;
+  }
+  
+  /**
+   * Resolve a tag name, branch name or commit ID to a commit ID
+   */
+  resolveRef(ref: string): string | undefined {
+    const tag = this.tagManager.getTag(ref);
+    if (tag) return tag.commitId;
+    
+    const branch = this.branchManager.getBranch(ref);
+    if (branch) return branch.headCommit || undefined;
+    
+    return this.commits.has(ref) ? ref : undefined;
+  }
+  
+  // ==========================================================================
+  // Branch Management
+  // ==========================================================================
+  
+  /**
+   * Create a new branch
+   */
+  async createBranch(
+    name: string,
+    createdBy: string,
+    baseBranch?: string
+  ): Promise<void> {
+    const context = { name, baseBranch, createdBy };
+    const audit = { actor: createdBy, target: name, targetType: 'branch' as const };
+    await this.runPreHooks('createBranch', context, audit);
+    
+    const branch = await this.branchManager.createBranch(name, createdBy, baseBranch);
+    this.deriveWorkspace(name, branch.headCommit);
+    
+    await this.runPostHooks('createBranch', branch, context, audit);
+  }
+  
+  /**
+   * Delete a branch and its workspace
+   */
+  async deleteBranch(name: string, deletedBy: string): Promise<void> {
+    const branch = this.branchManager.getBranch(name);
+    
+    if (!branch) {
+      throw new Error(`Branch "${name}" does not exist`);
+    }
+    
+    const context = { branch, deletedBy };
+    const audit = { actor: deletedBy, target: name, targetType: 'branch' as const };
+    await this.runPreHooks('deleteBranch', context, audit);
+    
+    await this.branchManager.deleteBranch(name, deletedBy);
+    this.openWorkspace(name).clear();
+    this.workspaces.delete(name);
+    
+    await this.runPostHooks('deleteBranch', branch, context, audit);
   }
   
   /**
-   * Checkout a branch
+   * Checkout a branch, switching the visible artifacts to that branch
    */
   checkout(branchName: string): void {
     this.branchManager.setCurrentBranch(branchName);
+    this.getWorkspace(branchName);
   }
   
   /**
@@ -345,22 +2164,91 @@ export class Repository {
     return this.branchManager.getAllBranches();
   }
   
+  // ==========================================================================
+  // History
+  // ==========================================================================
+  
+  /**
+   * Get the commit graph
+   */
+  getCommitGraph(): CommitGraph {
+    return this.commitGraph;
+  }
+  
+  /**
+   * Get topologically ordered history of a branch (current branch if omitted)
+   */
+  log(branchName?: string, options?: { limit?: number; artifactId?: string }): Commit[] {
+    return this.branchManager.getBranchLog(
+      branchName || this.branchManager.getCurrentBranch(),
+      options
+    );
+  }
+  
+  /**
+   * Get the merge-base commit of two branches
+   */
+  getMergeBase(branchA: string, branchB: string): string | null {
+    return this.branchManager.getMergeBase(branchA, branchB);
+  }
+  
+  /**
+   * Get commits ahead/behind between two branches
+   */
+  getBranchDifference(sourceBranch: string, targetBranch: string) {
+    return this.branchManager.getBranchDifference(sourceBranch, targetBranch);
+  }
+  
   // ==========================================================================
   // Environment Snapshots
   // ==========================================================================
   
   /**
-   * Pin environment for reproducibility
+   * Pin environment for reproducibility. Given a workflow ID, the lockfile
+   * committed for that workflow version is attached and its resolved
+   * dependency versions recorded.
    */
   async pinEnvironment(
     workflowVersion: string,
     pinnedBy: string,
-    conversationId?: string
+    conversationId?: string,
+    options?: { workflowId?: string; commitId?: string }
   ): Promise<EnvironmentSnapshot> {
+    let lockfileHash: string | undefined;
+    
+    if (options?.workflowId) {
+      const workflowId = options.workflowId;
+      const commit = options.commitId
+        ? this.commits.get(options.commitId)
+        : this.getCommitHistory(workflowId).find(c =>
+            c.lockfiles[workflowId] && this.loadSnapshot(c.tree[workflowId]).version === workflowVersion);
+      
+      lockfileHash = commit?.lockfiles[workflowId];
+      
+      if (!lockfileHash) {
+        throw new Error(`No lockfile committed for workflow "${workflowId}" at version "${workflowVersion}"`);
+      }
+    }
+    
+    const lockfile = lockfileHash ? this.loadLockfile(lockfileHash) : undefined;
+    
+    if (lockfile && lockfile.workflow.version !== workflowVersion) {
+      throw new Error(`Lockfile is for workflow version "${lockfile.workflow.version}", not "${workflowVersion}"`);
+    }
+    
+    const dependencies: Record<string, string> = {};
+    for (const locked of Object.values(lockfile?.artifacts || {})) {
+      if (locked.artifactId !== lockfile!.workflow.artifactId) {
+        dependencies[locked.name] = locked.version;
+      }
+    }
+    
     const snapshot: EnvironmentSnapshot = {
       id: uuidv4(),
       workflowVersion,
-      dependencies: {}, // Would capture actual dependencies
+      dependencies,
+      lockfile,
+      lockfileHash,
       environmentVariables: {},
       platform: process.platform,
       nodeVersion: process.version,
@@ -382,12 +2270,36 @@ export class Repository {
       actor: pinnedBy,
       target: snapshot.id,
       targetType: 'environment',
-      details: { workflowVersion, conversationId },
+      details: { workflowVersion, conversationId, lockfileHash },
     });
     
     return snapshot;
   }
   
+  /**
+   * Verify that what is committed on a branch (default branch if omitted)
+   * still matches a pinned environment's lockfile
+   */
+  verifyEnvironment(environmentId: string, branch: string = this.config.defaultBranch): LockfileVerification {
+    const environment = this.environments.get(environmentId);
+    
+    if (!environment) {
+      throw new Error(`Environment "${environmentId}" not found`);
+    }
+    
+    if (!environment.lockfile) {
+      throw new Error(`Environment "${environmentId}" has no lockfile`);
+    }
+    
+    const head = this.branchManager.getBranch(branch)?.headCommit || null;
+    const tree = this.readTree(head);
+    
+    return verifyLockfile(environment.lockfile, id => {
+      const snapshot = tree[id] ? this.objects.get<ArtifactSnapshot>(tree[id]) : undefined;
+      return snapshot && { version: snapshot.version, contentHash: snapshot.contentHash };
+    });
+  }
+  
   /**
    * Get pinned environments
    */
@@ -401,14 +2313,142 @@ export class Repository {
   // ==========================================================================
   
   /**
-   * Trigger rollback
+   * Trigger rollback. A tag name as target restores the tagged state.
    */
   async rollback(
     targetVersion: string,
     reason: string,
     initiatedBy: string
   ): Promise<void> {
-    await this.rollbackService.emergencyRollback(initiatedBy, targetVersion, reason);
+    const tag = this.tagManager.getTag(targetVersion);
+    const target = tag ? this.commits.get(tag.commitId) : undefined;
+    
+    if (tag && !target) {
+      throw new Error(`Commit "${tag.commitId}" not found`);
+    }
+    
+    const context = {
+      targetVersion,
+      commitId: target?.id,
+      branch: target ? this.config.defaultBranch : undefined,
+      reason,
+      initiatedBy,
+    };
+    const audit = { actor: initiatedBy, target: targetVersion, targetType: 'rollback' as const };
+    await this.runPreHooks('rollback', context, audit);
+    
+    const rollback = target
+      ? await this.restoreCommit(target, reason, initiatedBy, this.config.defaultBranch)
+      : await this.rollbackService.emergencyRollback(initiatedBy, targetVersion, reason);
+    
+    await this.runPostHooks('rollback', rollback, context, audit);
+  }
+  
+  /**
+   * Roll a branch (default branch if omitted) back to the artifact state
+   * recorded by a commit. The restore is a new commit, so history is kept.
+   */
+  async rollbackToCommit(
+    commitId: string,
+    reason: string,
+    initiatedBy: string,
+    branchName: string = this.config.defaultBranch
+  ): Promise<Rollback> {
+    const target = this.commits.get(commitId);
+    
+    if (!target) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+    
+    const context = { targetVersion: target.version, commitId, branch: branchName, reason, initiatedBy };
+    const audit = { actor: initiatedBy, target: commitId, targetType: 'rollback' as const };
+    await this.runPreHooks('rollback', context, audit);
+    
+    const rollback = await this.restoreCommit(target, reason, initiatedBy, branchName);
+    
+    await this.runPostHooks('rollback', rollback, context, audit);
+    
+    return rollback;
+  }
+  
+  /**
+   * Record a commit on a branch that restores the artifact state of a
+   * target commit, tracked as a rollback
+   */
+  private async restoreCommit(
+    target: Commit,
+    reason: string,
+    initiatedBy: string,
+    branchName: string
+  ): Promise<Rollback> {
+    const commitId = target.id;
+    const branch = this.branchManager.getBranch(branchName);
+    
+    if (!branch) {
+      throw new Error(`Branch "${branchName}" does not exist`);
+    }
+    
+    const rollback = await this.rollbackService.initiateRollback({
+      targetVersion: target.version,
+      targetCommitId: commitId,
+      trigger: 'manual',
+      triggerReason: 'manual_request',
+      initiatedBy,
+      description: reason,
+    });
+    
+    await this.rollbackService.executeRollback(rollback.id);
+    
+    try {
+      const ourTree = this.readTree(branch.headCommit);
+      const tree = { ...ourTree };
+      const changes: Change[] = [];
+      
+      for (const [artifactId, artifactHash] of Object.entries(target.tree)) {
+        if (ourTree[artifactId] === artifactHash) continue;
+        
+        const restored = this.loadSnapshot(artifactHash);
+        const current = ourTree[artifactId] ? this.loadSnapshot(ourTree[artifactId]) : undefined;
+        
+        if (current && deepEqual(current.content, restored.content)) continue;
+        
+        const version = current
+          ? detectVersionBump(current.type, current.version, current.content, restored.content, this.versionRules).newVersion
+          : restored.version;
+        
+        tree[artifactId] = this.storeArtifact({
+          ...(current || restored),
+          content: restored.content,
+          version,
+          updatedAt: new Date(),
+        }).artifactHash;
+        
+        changes.push(...diffContent(current?.content, restored.content).map(c => ({ ...c, artifactId })));
+      }
+      
+      const affected = Object.keys(tree).filter(id => tree[id] !== ourTree[id]);
+      
+      if (affected.length > 0) {
+        await this.recordCommit({
+          branch: branchName,
+          artifactIds: primaryFirst(affected, target.artifactId),
+          tree,
+          parentCommits: branch.headCommit ? [branch.headCommit] : [],
+          message: `Rollback to commit ${commitId}: ${reason}`,
+          author: initiatedBy,
+          changes,
+        });
+        this.refreshWorkspace(branchName, ourTree, tree);
+      }
+      
+      return await this.rollbackService.completeRollback(rollback.id, affected);
+    } catch (error) {
+      await this.rollbackService.failRollback(
+        rollback.id,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
   }
   
   /**
@@ -423,7 +2463,9 @@ export class Repository {
   // ==========================================================================
   
   /**
-   * Create risk assessment
+   * Create risk assessment. The version may also be a tag name, in which
+   * case the artifact version at that tag is assessed and the tagged commit
+   * is linked.
    */
   async createRiskAssessment(params: {
     artifactId: string;
@@ -435,6 +2477,20 @@ export class Repository {
     residualRisk: string;
     assessedBy: string;
   }) {
+    const tag = this.tagManager.getTag(params.version);
+    
+    if (tag) {
+      const artifact = this.getArtifactAt(params.artifactId, { tag: tag.name });
+      if (!artifact) {
+        throw new Error(`Artifact "${params.artifactId}" is not part of tag "${tag.name}"`);
+      }
+      return this.fdaCompliance.createRiskAssessment({
+        ...params,
+        version: artifact.version,
+        linkedCommits: [tag.commitId],
+      });
+    }
+    
     return this.fdaCompliance.createRiskAssessment(params);
   }
   
@@ -460,10 +2516,50 @@ export class Repository {
   }
   
   /**
-   * Merge pull request
+   * Merge pull request. Merges the source branch into the target branch;
+   * if the merge conflicts, resolve the conflicts of the pending merge and
+   * call this again to complete it. The merge itself runs the merge hooks,
+   * nested inside the mergePullRequest hooks: each hook runs once, and a
+   * failing post-hook is audited once under its own operation.
    */
   async mergePullRequest(prId: string, mergedBy: string) {
-    return this.fdaCompliance.mergePullRequest(prId, mergedBy);
+    const pr = this.fdaCompliance.getPullRequest(prId);
+    
+    if (!pr) {
+      throw new Error(`Pull request "${prId}" not found`);
+    }
+    
+    if (pr.status !== 'open') {
+      throw new Error(`Pull request is not open`);
+    }
+    
+    const context = { pullRequest: pr, mergedBy };
+    const audit = { actor: mergedBy, target: pr.targetBranch, targetType: 'branch' as const };
+    await this.runPreHooks('mergePullRequest', context, audit);
+    
+    const pending = this.getPendingMerges().find(m => m.pullRequestId === prId);
+    
+    if (pending) {
+      await this.completeMerge(pending.id, mergedBy);
+    } else {
+      const result = await this.merge(pr.sourceBranch, pr.targetBranch, mergedBy, {
+        pullRequestId: prId,
+        message: `Merge pull request "${pr.title}" from ${pr.sourceBranch}`,
+      });
+      
+      if (result.status === 'conflicts') {
+        throw new Error(
+          `Pull request "${prId}" has ${result.conflicts.length} merge conflict(s); ` +
+          `resolve them in merge "${result.mergeId}" and merge again`
+        );
+      }
+    }
+    
+    const merged = await this.fdaCompliance.mergePullRequest(prId, mergedBy);
+    
+    await this.runPostHooks('mergePullRequest', merged, context, audit);
+    
+    return merged;
   }
   
   /**
@@ -484,7 +2580,21 @@ export class Repository {
    * Approve design control gate
    */
   async approveGate(gateId: string, approvedBy: string, notes?: string) {
-    return this.fdaCompliance.approveGate(gateId, approvedBy, notes);
+    const gate = this.fdaCompliance.getDesignControlGates().find(g => g.id === gateId);
+    
+    if (!gate) {
+      throw new Error(`Gate "${gateId}" not found`);
+    }
+    
+    const context = { gate, approvedBy, notes };
+    const audit = { actor: approvedBy, target: gateId, targetType: 'artifact' as const };
+    await this.runPreHooks('approveGate', context, audit);
+    
+    const approved = await this.fdaCompliance.approveGate(gateId, approvedBy, notes);
+    
+    await this.runPostHooks('approveGate', approved, context, audit);
+    
+    return approved;
   }
   
   // ==========================================================================
@@ -512,64 +2622,606 @@ export class Repository {
     return this.auditLog.exportForCompliance(format);
   }
   
+  // ==========================================================================
+  // Bundles
+  // ==========================================================================
+  
+  /**
+   * Export branches and tags with their history as a signed bundle.
+   * Commits before `since` are left out; the receiving repository must
+   * already have them (they are listed as prerequisites).
+   */
+  async exportBundle(options: ExportBundleOptions = {}): Promise<string> {
+    const branches: Record<string, string> = {};
+    const tags: Tag[] = [];
+    
+    if (options.refs) {
+      for (const ref of options.refs) {
+        const tag = this.tagManager.getTag(ref);
+        const branch = this.branchManager.getBranch(ref);
+        
+        if (tag) {
+          tags.push(tag);
+        } else if (branch) {
+          if (!branch.headCommit) {
+            throw new Error(`Branch "${ref}" has no commits to export`);
+          }
+          branches[ref] = branch.headCommit;
+        } else {
+          throw new Error(`Ref "${ref}" not found`);
+        }
+      }
+    } else {
+      for (const branch of this.branchManager.getAllBranches()) {
+        if (branch.headCommit) branches[branch.name] = branch.headCommit;
+      }
+      tags.push(...this.tagManager.listTags());
+    }
+    
+    // History reachable from the refs, minus what predates `since` and
+    // what the receiver already has
+    const heads = [...Object.values(branches), ...tags.map(t => t.commitId)];
+    const reachable = new Set(heads.flatMap(head => this.commitGraph.ancestors(head)));
+    const excluded = new Set((options.exclude || [])
+      .filter(id => this.commits.has(id))
+      .flatMap(id => this.commitGraph.ancestors(id)));
+    const commits = Array.from(reachable)
+      .filter(id => !excluded.has(id))
+      .map(id => this.commits.get(id)!)
+      .filter(c => !options.since || c.timestamp >= options.since)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const included = new Set(commits.map(c => c.id));
+    
+    const prerequisites = new Set<string>();
+    for (const id of [...heads, ...commits.flatMap(c => c.parentCommits)]) {
+      if (!included.has(id)) prerequisites.add(id);
+    }
+    
+    // Every object the commits reference, so the bundle is self-contained
+    const objects = new Map<string, string>();
+    const artifactIds = new Set<string>();
+    const addObject = (hash: string) => {
+      const blob = this.objects.getBlob(hash);
+      if (blob !== undefined) objects.set(hash, blob);
+    };
+    
+    for (const commit of commits) {
+      for (const [artifactId, artifactHash] of Object.entries(commit.tree)) {
+        artifactIds.add(artifactId);
+        addObject(artifactHash);
+        const snapshot = this.objects.get<ArtifactSnapshot>(artifactHash);
+        if (snapshot) addObject(snapshot.contentHash);
+      }
+      Object.values(commit.lockfiles).forEach(addObject);
+    }
+    
+    const purged = Array.from(artifactIds)
+      .map(id => this.purged.get(id))
+      .filter((record): record is PurgeRecord => !!record);
+    
+    const unsigned: Omit<RepositoryBundle, 'signature'> = {
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      id: uuidv4(),
+      repository: this.config.name,
+      keyId: signingKeyId(this.signingKey),
+      createdAt: new Date(),
+      createdBy: options.exportedBy || 'system',
+      since: options.since,
+      branches,
+      tags,
+      prerequisites: Array.from(prerequisites),
+      commits,
+      objects: Array.from(objects.entries()),
+      purged,
+      auditLog: this.bundleAuditLog(included, Object.keys(branches), artifactIds, options.since),
+    };
+    
+    const bundle: RepositoryBundle = { ...unsigned, signature: signBundle(unsigned, this.signingKey) };
+    const text = encodeBundle(bundle);
+    
+    if (options.file) {
+      writeFileAtomic(options.file, text);
+    }
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.BUNDLE_EXPORTED,
+      actor: bundle.createdBy,
+      target: bundle.id,
+      targetType: 'repository',
+      details: {
+        branches,
+        tags: tags.map(t => t.name),
+        commits: commits.length,
+        since: options.since?.toISOString(),
+        file: options.file,
+      },
+    });
+    
+    return text;
+  }
+  
+  /**
+   * The stretch of the audit log that covers the bundled history: from the
+   * first to the last related entry, kept contiguous so that the receiving
+   * repository can verify its hash chain
+   */
+  private bundleAuditLog(
+    commitIds: Set<string>,
+    branchNames: string[],
+    artifactIds: Set<string>,
+    since?: Date
+  ): AuditLog[] {
+    const logs = this.auditLog.getChain();
+    const related = (log: AuditLog) =>
+      (commitIds.has(log.target) || branchNames.includes(log.target) || artifactIds.has(log.target)) &&
+      (!since || log.timestamp >= since);
+    
+    const first = logs.findIndex(related);
+    if (first === -1) return [];
+    
+    let last = logs.length - 1;
+    while (!related(logs[last])) last--;
+    
+    return logs.slice(first, last + 1);
+  }
+  
+  /**
+   * Import a bundle made by exportBundle. Everything is verified before
+   * anything is stored: the bundle and commit signatures, object hashes,
+   * prerequisites, the audit hash chain, and that every branch moves
+   * forward. Any mismatch rejects the whole bundle.
+   *
+   * Signatures are checked with this repository's signing key, so the
+   * exporting repository must have been opened with the same key. They
+   * prove integrity, not authorship: any holder of the key can sign as any
+   * author, so commit authors and `createdBy` are claims. New
+   * commits that land on a branch run the commit hooks; a veto rejects
+   * the bundle.
+   */
+  async importBundle(
+    data: string,
+    importedBy: string,
+    options: ImportBundleOptions = {}
+  ): Promise<ImportBundleResult> {
+    const bundle = decodeBundle(data);
+    const onDiverged = options.onDiverged || 'reject';
+    const errors: string[] = [];
+    
+    if (bundle.keyId !== undefined && bundle.keyId !== signingKeyId(this.signingKey)) {
+      throw new Error(
+        `Bundle "${bundle.id}" rejected: signed with unknown signing key "${bundle.keyId}"; ` +
+        'bundles can only be imported from repositories sharing this signing key'
+      );
+    }
+    
+    if (!verifyBundleSignature(bundle, this.signingKey)) {
+      errors.push('bundle signature does not match');
+    }
+    
+    const objects = new Map(bundle.objects);
+    for (const [hash, blob] of objects) {
+      if (contentHash(blob) !== hash) {
+        errors.push(`object "${hash}" does not match its hash`);
+      }
+    }
+    
+    const incoming = new Map(bundle.commits.map(c => [c.id, c]));
+    const hasCommit = (id: string) => incoming.has(id) || this.commits.has(id);
+    const hasObject = (hash: string) => objects.has(hash) || this.objects.has(hash);
+    const readObject = (hash: string) => objects.has(hash) ? JSON.parse(objects.get(hash)!) : this.objects.get(hash);
+    const purged = new Set([...bundle.purged.map(p => p.artifactId), ...this.purged.keys()]);
+    
+    for (const id of bundle.prerequisites) {
+      if (!this.commits.has(id)) {
+        errors.push(`prerequisite commit "${id}" is missing`);
+      }
+    }
+    
+    for (const commit of bundle.commits) {
+      if (!verifyCommitSignature(this.commitSignatureData(commit), commit.signature, this.signingKey)) {
+        errors.push(`commit "${commit.id}" has an invalid signature`);
+      }
+      
+      const existing = this.commits.get(commit.id);
+      if (existing && existing.signature !== commit.signature) {
+        errors.push(`commit "${commit.id}" differs from the existing commit`);
+      }
+      
+      for (const parent of commit.parentCommits) {
+        if (!hasCommit(parent)) {
+          errors.push(`parent "${parent}" of commit "${commit.id}" is missing`);
+        }
+      }
+      
+      for (const [artifactId, artifactHash] of Object.entries(commit.tree)) {
+        const snapshot: ArtifactSnapshot | undefined = hasObject(artifactHash) ? readObject(artifactHash) : undefined;
+        if (!snapshot || (!hasObject(snapshot.contentHash) && !purged.has(artifactId))) {
+          errors.push(`objects of artifact "${artifactId}" in commit "${commit.id}" are missing`);
+        }
+      }
+      
+      for (const hash of Object.values(commit.lockfiles)) {
+        if (!hasObject(hash)) {
+          errors.push(`lockfile "${hash}" of commit "${commit.id}" is missing`);
+        }
+      }
+    }
+    
+    for (const tag of bundle.tags) {
+      if (!hasCommit(tag.commitId)) {
+        errors.push(`commit "${tag.commitId}" of tag "${tag.name}" is missing`);
+      }
+      
+      if (tag.annotation?.signature &&
+          tag.annotation.signature !== this.signTag(tag.name, tag.commitId, tag.annotation.message, tag.releaseNotes)) {
+        errors.push(`tag "${tag.name}" has an invalid signature`);
+      }
+      
+      const existing = this.tagManager.getTag(tag.name);
+      if (existing && existing.commitId !== tag.commitId) {
+        errors.push(`tag "${tag.name}" already points at commit "${existing.commitId}"`);
+      }
+      
+      const nested = findNestedRef(tag.name, [...this.tagManager.listTags().map(t => t.name), ...bundle.tags.map(t => t.name)]);
+      if (!existing && nested) {
+        errors.push(`tag "${tag.name}" conflicts with tag "${nested}"`);
+      }
+    }
+    
+    // Branches move forward only, unless overwriting was asked for
+    const graph = new CommitGraph(id => incoming.get(id) || this.commits.get(id));
+    const updates: Record<string, string> = {};
+    const diverged: string[] = [];
+    
+    for (const [name, head] of Object.entries(bundle.branches)) {
+      if (!hasCommit(head)) {
+        errors.push(`head "${head}" of branch "${name}" is missing`);
+        continue;
+      }
+      
+      const branch = this.branchManager.getBranch(name);
+      const current = branch?.headCommit;
+      
+      const nested = findNestedRef(name, [...this.listBranches().map(b => b.name), ...Object.keys(bundle.branches)]);
+      if (!branch && nested) {
+        errors.push(`branch "${name}" conflicts with branch "${nested}"`);
+        continue;
+      }
+      
+      if (!current || (current !== head && graph.isAncestor(current, head))) {
+        const next = (incoming.get(head) || this.commits.get(head))!;
+        const dirty = this.uncommittedChanges(name, this.readTree(current || null), next.tree);
+        if (dirty.length > 0) {
+          errors.push(`branch "${name}" has uncommitted changes to ${dirty.map(id => `"${id}"`).join(', ')}`);
+        }
+        updates[name] = head;
+      } else if (graph.isAncestor(head, current)) {
+        continue; // Already contains the bundled head
+      } else if (onDiverged === 'skip') {
+        diverged.push(name);
+      } else if (onDiverged === 'overwrite' && !branch!.protected) {
+        updates[name] = head;
+      } else {
+        errors.push(branch!.protected && onDiverged === 'overwrite'
+          ? `protected branch "${name}" can only be fast-forwarded`
+          : `branch "${name}" has diverged: "${current}" is not an ancestor of "${head}"`);
+      }
+    }
+    
+    const chain = verifyAuditSegment(bundle.auditLog);
+    if (!chain.valid) {
+      errors.push(`audit log hash chain is broken at entry ${chain.brokenAt}`);
+    }
+    
+    if (errors.length > 0) {
+      throw new Error(`Bundle "${bundle.id}" rejected: ${errors.join('; ')}`);
+    }
+    
+    // Store history first so refs never point at missing commits
+    objects.forEach(blob => this.objects.putBlob(blob));
+    
+    // Commits landing on a branch pass the commit hooks like local ones
+    const landing = new Map<string, string>(); // Commit ID -> branch
+    for (const [name, head] of Object.entries(updates)) {
+      for (const id of graph.ancestors(head)) {
+        if (incoming.has(id) && !this.commits.has(id) && !landing.has(id)) landing.set(id, name);
+      }
+    }
+    
+    const hookRuns = Array.from(landing, ([id, name]) => {
+      const commit = incoming.get(id)!;
+      const artifacts = commit.artifactIds
+        .filter(artifactId => !purged.has(artifactId))
+        .map(artifactId => this.loadSnapshot(commit.tree[artifactId]));
+      const context = { branch: name, artifacts, message: commit.message, author: commit.author };
+      return { commit, context, audit: { actor: importedBy, target: name, targetType: 'branch' as const } };
+    }).sort((a, b) => a.commit.timestamp.getTime() - b.commit.timestamp.getTime());
+    
+    for (const { context, audit } of hookRuns) {
+      await this.runPreHooks('commit', context, audit);
+    }
+    
+    for (const record of bundle.purged) {
+      if (!this.purged.has(record.artifactId)) this.purged.set(record.artifactId, record);
+    }
+    
+    const newCommits = bundle.commits.filter(c => !this.commits.has(c.id));
+    newCommits.forEach(c => this.commits.set(c.id, c));
+    
+    for (const [name, head] of Object.entries(updates)) {
+      const branch = this.branchManager.getBranch(name);
+      
+      if (branch && graph.isAncestor(branch.headCommit || head, head)) {
+        const previousTree = this.readTree(branch.headCommit);
+        await this.branchManager.updateHeadCommit(name, head, importedBy);
+        this.refreshWorkspace(name, previousTree, this.readTree(head));
+      } else if (branch) {
+        await this.branchManager.updateHeadCommit(name, head, importedBy);
+        this.deriveWorkspace(name, head);
+      } else {
+        await this.branchManager.createBranch(name, importedBy);
+        await this.branchManager.updateHeadCommit(name, head, importedBy);
+        this.deriveWorkspace(name, head);
+      }
+    }
+    
+    const newTags = bundle.tags.filter(t => !this.tagManager.getTag(t.name));
+    newTags.forEach(t => this.tagManager.importTag(t));
+    
+    for (const { commit, context, audit } of hookRuns) {
+      await this.runPostHooks('commit', commit, context, audit);
+    }
+    
+    const result: ImportBundleResult = {
+      bundleId: bundle.id,
+      commits: newCommits.map(c => c.id),
+      branches: updates,
+      tags: newTags.map(t => t.name),
+      diverged,
+    };
+    
+    this.bundles.set(bundle.id, {
+      bundleId: bundle.id,
+      repository: bundle.repository,
+      createdAt: bundle.createdAt,
+      createdBy: bundle.createdBy,
+      importedAt: new Date(),
+      importedBy,
+      claimedBy: options.claimedBy,
+      branches: result.branches,
+      tags: result.tags,
+      commits: result.commits,
+      auditLog: bundle.auditLog,
+    });
+    
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.BUNDLE_IMPORTED,
+      actor: importedBy,
+      target: bundle.id,
+      targetType: 'repository',
+      details: {
+        source: bundle.repository,
+        claimedBy: options.claimedBy,
+        branches: result.branches,
+        tags: result.tags,
+        diverged: result.diverged,
+        commits: result.commits.length,
+        auditEntries: bundle.auditLog.length,
+        auditHead: bundle.auditLog[bundle.auditLog.length - 1]?.hash,
+      },
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Get the provenance record of an imported bundle, including the source
+   * repository's audit entries
+   */
+  getImportedBundle(bundleId: string): BundleImportRecord | undefined {
+    return this.bundles.get(bundleId);
+  }
+  
+  /**
+   * List imported bundles, oldest first
+   */
+  getImportedBundles(): BundleImportRecord[] {
+    return this.bundles.values()
+      .sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime());
+  }
+  
+  // ==========================================================================
+  // Remotes
+  // ==========================================================================
+  
+  /**
+   * Commits this repository can offer as already known to a remote
+   */
+  private knownHeads(): string[] {
+    const heads = [
+      ...this.branchManager.getAllBranches().map(b => b.headCommit),
+      ...this.tagManager.listTags().map(t => t.commitId),
+    ];
+    return Array.from(new Set(heads.filter((id): id is string => !!id)));
+  }
+  
+  /**
+   * Fetch branches and tags from a remote. New branches are created and
+   * branches that are behind are fast-forwarded; branches whose history
+   * diverged are reported and left untouched. The remote's heads are kept
+   * as remote-tracking refs ("origin/main").
+   */
+  async fetch(
+    remote: RemoteTransport,
+    options: { remoteName?: string; refs?: string[]; fetchedBy?: string } = {}
+  ): Promise<FetchResult> {
+    const remoteName = options.remoteName || 'origin';
+    const { advertisement } = await requestRemote(remote, { type: 'advertise' });
+    const { bundle } = await requestRemote(remote, {
+      type: 'fetch',
+      refs: options.refs,
+      have: this.knownHeads(),
+    });
+    
+    const result = await this.importBundle(bundle, options.fetchedBy || 'system', { onDiverged: 'skip' });
+    
+    const heads: Record<string, string> = {};
+    for (const [name, head] of Object.entries(advertisement.branches)) {
+      if (!head || (options.refs && !options.refs.includes(name))) continue;
+      heads[name] = head;
+      this.remoteRefs.set(`${remoteName}/${name}`, head);
+    }
+    
+    return {
+      remote: remoteName,
+      heads,
+      updated: result.branches,
+      diverged: result.diverged,
+      tags: result.tags,
+      commits: result.commits,
+    };
+  }
+  
+  /**
+   * Push branches and tags (the current branch if omitted) to a remote.
+   * The remote verifies every commit and only fast-forwards; `force`
+   * overwrites diverged branches, except protected ones, on remotes that
+   * allow force pushes. The remote records `pushedBy` only as a claim.
+   */
+  async push(
+    remote: RemoteTransport,
+    options: { pushedBy: string; refs?: string[]; force?: boolean; remoteName?: string }
+  ): Promise<PushResult> {
+    const remoteName = options.remoteName || 'origin';
+    const { advertisement } = await requestRemote(remote, { type: 'advertise' });
+    
+    const remoteHeads = [
+      ...Object.values(advertisement.branches),
+      ...advertisement.tags.map(t => t.commitId),
+    ].filter((id): id is string => !!id);
+    
+    const bundle = await this.exportBundle({
+      refs: options.refs || [this.branchManager.getCurrentBranch()],
+      exclude: remoteHeads,
+      exportedBy: options.pushedBy,
+    });
+    
+    const { result } = await requestRemote(remote, {
+      type: 'push',
+      bundle,
+      pushedBy: options.pushedBy,
+      force: options.force,
+    });
+    
+    for (const [name, head] of Object.entries(result.branches)) {
+      this.remoteRefs.set(`${remoteName}/${name}`, head);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Get remote-tracking refs ("origin/main" -> commit ID), optionally for one remote
+   */
+  getRemoteRefs(remoteName?: string): Record<string, string> {
+    const refs: Record<string, string> = {};
+    
+    for (const [name, head] of this.remoteRefs.entries()) {
+      if (!remoteName || name.startsWith(`${remoteName}/`)) refs[name] = head;
+    }
+    
+    return refs;
+  }
+  
+  /**
+   * Clone a remote repository: same configuration, all branches and tags,
+   * checked out on the default branch. Persisted to `directory` if given.
+   */
+  static async clone(
+    remote: RemoteTransport,
+    options: {
+      signingKey?: string;
+      directory?: string;
+      storage?: StorageAdapter;
+      clonedBy?: string;
+      remoteName?: string;
+    } = {}
+  ): Promise<Repository> {
+    const { advertisement } = await requestRemote(remote, { type: 'advertise' });
+    const config = RepositoryConfigSchema.parse(advertisement.config);
+    
+    const repository = options.directory
+      ? await Repository.init(options.directory, config, options.signingKey)
+      : new Repository(config, options.signingKey, options.storage);
+    
+    await repository.fetch(remote, { remoteName: options.remoteName, fetchedBy: options.clonedBy });
+    repository.checkout(config.defaultBranch);
+    
+    return repository;
+  }
+  
   // ==========================================================================
   // Serialization
   // ==========================================================================
   
   /**
-   * Serialize repository state
+   * Serialize the full repository state in the current format version
    */
   serialize(): string {
-    return JSON.stringify({
-      config: this.config,
-      artifacts: Array.from(this.artifacts.entries()),
-      commits: Array.from(this.commits.entries()),
-      environments: Array.from(this.environments.entries()),
-      branches: this.branchManager.serialize(),
-      auditLogs: this.auditLog.serialize(),
-      rollbacks: this.rollbackService.serialize(),
-      fdaCompliance: this.fdaCompliance.serialize(),
-    }, null, 2);
+    return serializeRepository(this.config, this.storage);
   }
   
   /**
-   * Create repository from serialized state
+   * Create repository from serialized state. Older formats are migrated
+   * and every record is validated before anything is loaded.
    */
   static async deserialize(
     data: string,
-    signingKey: string = 'default-signing-key'
+    signingKey: string = 'default-signing-key',
+    options: { storage?: StorageAdapter; migrations?: FormatMigrationRegistry } = {}
   ): Promise<Repository> {
-    const parsed = JSON.parse(data);
-    
-    const repo = new Repository(parsed.config, signingKey);
-    
-    repo.artifacts = new Map(parsed.artifacts.map(([k, v]: [string, any]) => [
-      k,
-      { ...v, createdAt: new Date(v.createdAt), updatedAt: new Date(v.updatedAt) }
-    ]));
+    const parsed = parseSerializedRepository(data, options.migrations);
+    const storage = options.storage || new MemoryStorageAdapter();
     
-    repo.commits = new Map(parsed.commits.map(([k, v]: [string, any]) => [
-      k,
-      { ...v, timestamp: new Date(v.timestamp) }
-    ]));
+    loadRepository(parsed, storage);
     
-    repo.environments = new Map(parsed.environments.map(([k, v]: [string, any]) => [
-      k,
-      { ...v, createdAt: new Date(v.createdAt) }
-    ]));
+    return new Repository(RepositoryConfigSchema.parse(parsed.config), signingKey, storage);
+  }
+  
+  // ==========================================================================
+  // On-Disk Repositories
+  // ==========================================================================
+  
+  /**
+   * Create a repository persisted to a directory. Fails if the directory
+   * already holds one.
+   */
+  static async init(
+    directory: string,
+    config: RepositoryConfig | string,
+    signingKey?: string
+  ): Promise<Repository> {
+    const resolved = RepositoryConfigSchema.parse(
+      typeof config === 'string' ? createRepositoryConfig(config) : config
+    );
     
-    return repo;
+    return new Repository(resolved, signingKey, RepositoryLayoutAdapter.init(directory, resolved));
+  }
+  
+  /**
+   * Open a repository persisted to a directory
+   */
+  static async open(directory: string, signingKey?: string): Promise<Repository> {
+    const layout = RepositoryLayoutAdapter.open(directory);
+    return new Repository(layout.readConfig(), signingKey, layout);
   }
 }
 
 /**
- * Factory function to create a new repository
+ * Default configuration for a new repository
  */
-export function createRepository(
-  name: string,
-  signingKey?: string
-): Repository {
-  const config: RepositoryConfig = {
+export function createRepositoryConfig(name: string): RepositoryConfig {
+  return {
     name,
     defaultBranch: 'main',
     retentionYears: 10,
@@ -587,6 +3239,14 @@ export function createRepository(
       develop: false,
     },
   };
-  
-  return new Repository(config, signingKey);
+}
+
+/**
+ * Factory function to create a new repository
+ */
+export function createRepository(
+  name: string,
+  signingKey?: string
+): Repository {
+  return new Repository(createRepositoryConfig(name), signingKey);
 }
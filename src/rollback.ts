@@ -12,6 +12,7 @@ import {
 } from './types';
 import { sha256 } from './crypto';
 import { AuditLogService, AUDIT_ACTIONS } from './audit';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
 
 export interface RollbackMetrics {
   errorRate: number;
@@ -31,22 +32,40 @@ export interface RollbackConfig {
 }
 
 export class RollbackService {
-  private rollbacks: Map<string, Rollback> = new Map();
+  private rollbacks: StorageCollection<Rollback>;
+  private state: StorageCollection<number>;
   private config: RollbackConfig;
   private auditLog: AuditLogService;
-  private lastRollbackTime: number = 0;
-  private rollbackCountLastHour: number = 0;
   private checkInterval: NodeJS.Timeout | null = null;
   private onRollbackTriggered?: (rollback: Rollback) => void;
   
   constructor(
     config: RollbackConfig, 
     auditLog: AuditLogService,
-    onRollbackTriggered?: (rollback: Rollback) => void
+    onRollbackTriggered?: (rollback: Rollback) => void,
+    storage: StorageAdapter = new MemoryStorageAdapter()
   ) {
     this.config = config;
     this.auditLog = auditLog;
     this.onRollbackTriggered = onRollbackTriggered;
+    this.rollbacks = new StorageCollection(storage, STORAGE_COLLECTIONS.ROLLBACKS);
+    this.state = new StorageCollection(storage, STORAGE_COLLECTIONS.ROLLBACK_STATE);
+  }
+  
+  private get lastRollbackTime(): number {
+    return this.state.get('lastRollbackTime') ?? 0;
+  }
+  
+  private set lastRollbackTime(time: number) {
+    this.state.set('lastRollbackTime', time);
+  }
+  
+  private get rollbackCountLastHour(): number {
+    return this.state.get('rollbackCountLastHour') ?? 0;
+  }
+  
+  private set rollbackCountLastHour(count: number) {
+    this.state.set('rollbackCountLastHour', count);
   }
   
   async checkAndTriggerRollback(metrics: RollbackMetrics): Promise<Rollback | null> {
@@ -157,6 +176,7 @@ export class RollbackService {
     }
     
     rollback.status = 'in_progress';
+    this.rollbacks.set(rollbackId, rollback);
     
     await this.auditLog.log({
       action: 'ROLLBACK_IN_PROGRESS',
@@ -179,6 +199,7 @@ export class RollbackService {
     rollback.status = 'completed';
     rollback.completedAt = new Date();
     rollback.affectedArtifacts = affectedArtifacts;
+    this.rollbacks.set(rollbackId, rollback);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.ROLLBACK_COMPLETED,
@@ -204,6 +225,7 @@ export class RollbackService {
     rollback.status = 'failed';
     rollback.completedAt = new Date();
     rollback.error = error;
+    this.rollbacks.set(rollbackId, rollback);
     
     await this.auditLog.log({
       action: AUDIT_ACTIONS.ROLLBACK_FAILED,
@@ -333,6 +355,7 @@ export class RollbackService {
     rollback.status = 'failed';
     rollback.error = 'Cancelled by ' + cancelledBy;
     rollback.completedAt = new Date();
+    this.rollbacks.set(rollbackId, rollback);
     
     await this.auditLog.log({
       action: 'ROLLBACK_CANCELLED',
@@ -354,12 +377,20 @@ export class RollbackService {
   static deserialize(
     data: string, 
     config: RollbackConfig, 
-    auditLog: AuditLogService
+    auditLog: AuditLogService,
+    storage?: StorageAdapter
   ): RollbackService {
     const parsed = JSON.parse(data);
-    const service = new RollbackService(config, auditLog);
-    
-    service.rollbacks = new Map(parsed.rollbacks);
+    const service = new RollbackService(config, auditLog, undefined, storage);
+    
+    service.rollbacks.clear();
+    for (const [id, rollback] of parsed.rollbacks as [string, any][]) {
+      service.rollbacks.set(id, {
+        ...rollback,
+        timestamp: new Date(rollback.timestamp),
+        completedAt: rollback.completedAt ? new Date(rollback.completedAt) : undefined,
+      });
+    }
     service.lastRollbackTime = parsed.lastRollbackTime;
     service.rollbackCountLastHour = parsed.rollbackCountLastHour;
     
@@ -379,11 +410,13 @@ export const DEFAULT_ROLLBACK_CONFIG: RollbackConfig = {
 export function createRollbackService(
   auditLog: AuditLogService,
   config?: Partial<RollbackConfig>,
-  onRollbackTriggered?: (rollback: Rollback) => void
+  onRollbackTriggered?: (rollback: Rollback) => void,
+  storage?: StorageAdapter
 ): RollbackService {
   return new RollbackService(
     { ...DEFAULT_ROLLBACK_CONFIG, ...config },
     auditLog,
-    onRollbackTriggered
+    onRollbackTriggered,
+    storage
   );
 }
@@ -0,0 +1,251 @@
+/**
+ * Agent Pipeline Versioning - Version Ranges
+ *
+ * Range matching for dependency references, following npm range syntax:
+ * - Exact versions and comparators: 1.2.3, =1.2.3, >=1.2.0, <2.0.0
+ * - Caret and tilde ranges: ^1.2.3, ~1.2.3
+ * - X-ranges and partial versions: *, 1.x, 1.2
+ * - Hyphen ranges: 1.0.0 - 2.0.0
+ * - Comparator sets joined with || (any set may match)
+ * - Prereleases: 2.0.0-rc.1 only matches ranges that name a prerelease of
+ *   2.0.0 itself, e.g. >=2.0.0-rc.0, unless prereleases are included;
+ *   the unrestricted range * matches every version
+ */
+
+import { compareVersions, parseVersion } from './types';
+
+/**
+ * A single version comparison
+ */
+export interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: string;
+}
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease?: string;
+}
+
+/**
+ * Options for range matching
+ */
+export interface RangeOptions {
+  includePrerelease?: boolean; // Let prereleases match like any other version
+}
+
+const PARTIAL_VERSION = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+function parsePartial(text: string): PartialVersion {
+  const match = PARTIAL_VERSION.exec(text);
+
+  if (!match) {
+    throw new Error(`Invalid version "${text}" in range`);
+  }
+
+  const part = (value?: string) =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : parseInt(value, 10);
+
+  const major = part(match[1]);
+  const minor = major === undefined ? undefined : part(match[2]);
+  const patch = minor === undefined ? undefined : part(match[3]);
+
+  // Prerelease tags only apply to complete versions; build metadata is ignored
+  if (match[4] !== undefined && patch === undefined) {
+    throw new Error(`Invalid version "${text}" in range`);
+  }
+
+  return { major, minor, patch, prerelease: match[4] };
+}
+
+function format(major: number, minor: number, patch: number): string {
+  return `${major}.${minor}.${patch}`;
+}
+
+/**
+ * Lowest version a partial version can stand for
+ */
+function lowerBound(v: PartialVersion): string {
+  const version = format(v.major || 0, v.minor || 0, v.patch || 0);
+  return v.prerelease ? `${version}-${v.prerelease}` : version;
+}
+
+/**
+ * First version above everything a partial version can stand for
+ */
+function upperBound(v: PartialVersion): string | undefined {
+  if (v.major === undefined) return undefined;
+  if (v.minor === undefined) return format(v.major + 1, 0, 0);
+  if (v.patch === undefined) return format(v.major, v.minor + 1, 0);
+  return format(v.major, v.minor, v.patch + 1);
+}
+
+function caret(v: PartialVersion): Comparator[] {
+  if (v.major === undefined) return [];
+
+  const minor = v.minor || 0;
+  const patch = v.patch || 0;
+  let upper: string;
+
+  if (v.major > 0 || v.minor === undefined) {
+    upper = format(v.major + 1, 0, 0);
+  } else if (minor > 0 || v.patch === undefined) {
+    upper = format(0, minor + 1, 0);
+  } else {
+    upper = format(0, 0, patch + 1);
+  }
+
+  return [
+    { operator: '>=', version: lowerBound(v) },
+    { operator: '<', version: upper },
+  ];
+}
+
+function tilde(v: PartialVersion): Comparator[] {
+  if (v.major === undefined) return [];
+
+  const upper = v.minor === undefined
+    ? format(v.major + 1, 0, 0)
+    : format(v.major, v.minor + 1, 0);
+
+  return [
+    { operator: '>=', version: lowerBound(v) },
+    { operator: '<', version: upper },
+  ];
+}
+
+function primitive(operator: string, v: PartialVersion): Comparator[] {
+  const upper = upperBound(v);
+
+  switch (operator) {
+    case '>=':
+      return v.major === undefined ? [] : [{ operator: '>=', version: lowerBound(v) }];
+    case '>':
+      if (v.major === undefined) return [{ operator: '<', version: '0.0.0' }]; // Matches nothing
+      return v.patch === undefined
+        ? [{ operator: '>=', version: upper! }]
+        : [{ operator: '>', version: lowerBound(v) }];
+    case '<':
+      return v.major === undefined
+        ? [{ operator: '<', version: '0.0.0' }]
+        : [{ operator: '<', version: lowerBound(v) }];
+    case '<=':
+      if (v.major === undefined) return [];
+      return v.patch === undefined
+        ? [{ operator: '<', version: upper! }]
+        : [{ operator: '<=', version: lowerBound(v) }];
+    default:
+      // Plain or "=" version: exact when complete, an X-range when partial
+      if (v.major === undefined) return [];
+      return v.patch === undefined
+        ? [{ operator: '>=', version: lowerBound(v) }, { operator: '<', version: upper! }]
+        : [{ operator: '=', version: lowerBound(v) }];
+  }
+}
+
+function parseComparatorSet(text: string): Comparator[] {
+  const trimmed = text.trim();
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    return [...primitive('>=', from), ...primitive('<=', to)];
+  }
+
+  // Allow "> = 1.2.3" style spacing between operator and version
+  const tokens = trimmed.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/).filter(Boolean);
+  const comparators: Comparator[] = [];
+
+  for (const token of tokens) {
+    const match = /^(<=|>=|<|>|=|\^|~)?(.*)$/.exec(token)!;
+    const operator = match[1] || '=';
+    const version = parsePartial(match[2]);
+
+    if (operator === '^') {
+      comparators.push(...caret(version));
+    } else if (operator === '~') {
+      comparators.push(...tilde(version));
+    } else {
+      comparators.push(...primitive(operator, version));
+    }
+  }
+
+  return comparators;
+}
+
+/**
+ * Parse a range into comparator sets; a version matches when it satisfies
+ * every comparator of at least one set
+ */
+export function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(parseComparatorSet);
+}
+
+/**
+ * Check whether a range is syntactically valid
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function test(version: string, comparator: Comparator): boolean {
+  const order = compareVersions(version, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '=':
+      return order === 0;
+  }
+}
+
+/**
+ * A prerelease may only match a comparator set that opts into prereleases
+ * of the same major.minor.patch
+ */
+function allowsPrerelease(version: string, set: Comparator[]): boolean {
+  const { major, minor, patch, prerelease } = parseVersion(version);
+  if (prerelease.length === 0 || set.length === 0) return true;
+
+  return set.some(comparator => {
+    const bound = parseVersion(comparator.version);
+    return bound.prerelease.length > 0 &&
+      bound.major === major &&
+      bound.minor === minor &&
+      bound.patch === patch;
+  });
+}
+
+/**
+ * Check whether a version satisfies a range
+ */
+export function satisfies(version: string, range: string, options: RangeOptions = {}): boolean {
+  return parseRange(range).some(set =>
+    set.every(comparator => test(version, comparator)) &&
+    (options.includePrerelease || allowsPrerelease(version, set))
+  );
+}
+
+/**
+ * Get the highest version that satisfies a range
+ */
+export function maxSatisfying(versions: string[], range: string, options: RangeOptions = {}): string | undefined {
+  return versions
+    .filter(v => satisfies(v, range, options))
+    .sort(compareVersions)
+    .pop();
+}
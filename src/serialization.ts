@@ -0,0 +1,474 @@
+/**
+ * Agent Pipeline Versioning - Repository Serialization Format
+ *
+ * A versioned, lossless snapshot of every storage collection:
+ * - Records keep their Date values (tagged as { "$date": ... })
+ * - Older formats are upgraded through registered migrations
+ * - Records are validated against their Zod schemas on load
+ */
+
+import { z } from 'zod';
+import {
+  RepositoryConfig,
+  RepositoryConfigSchema,
+  VersionedArtifactSchema,
+  CommitSchema,
+  BranchSchema,
+  TagSchema,
+  LegalHoldSchema,
+  PurgeRecordSchema,
+  AuditLogSchema,
+  RollbackSchema,
+  RiskAssessmentSchema,
+  PullRequestSchema,
+  TestReportSchema,
+  EnvironmentSnapshotSchema,
+} from './types';
+import { formatPath } from './diff';
+import { auditLogKey } from './audit';
+import { contentHash } from './crypto';
+import { ObjectStore } from './object-store';
+import {
+  StorageAdapter,
+  STORAGE_COLLECTIONS,
+  workspaceCollection,
+  encodeRecord,
+  decodeRecord,
+} from './storage';
+
+/**
+ * Current serialization format version
+ */
+export const REPOSITORY_FORMAT_VERSION = 2;
+
+/**
+ * Serialized repository: the config plus the records of every collection
+ */
+export interface SerializedRepository {
+  formatVersion: number;
+  config: RepositoryConfig;
+  collections: Record<string, Array<[string, any]>>; // Collection -> [key, record] pairs
+}
+
+/**
+ * Upgrades serialized data from one format version to the next
+ */
+export interface FormatMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+/**
+ * Schemas that records of a collection must satisfy on load
+ */
+const RECORD_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  [STORAGE_COLLECTIONS.COMMITS]: CommitSchema,
+  [STORAGE_COLLECTIONS.ENVIRONMENTS]: EnvironmentSnapshotSchema,
+  [STORAGE_COLLECTIONS.LEGAL_HOLDS]: LegalHoldSchema,
+  [STORAGE_COLLECTIONS.PURGED]: PurgeRecordSchema,
+  [STORAGE_COLLECTIONS.TAGS]: TagSchema,
+  [STORAGE_COLLECTIONS.BRANCHES]: BranchSchema,
+  [STORAGE_COLLECTIONS.AUDIT_LOG]: AuditLogSchema,
+  [STORAGE_COLLECTIONS.ROLLBACKS]: RollbackSchema,
+  [STORAGE_COLLECTIONS.RISK_ASSESSMENTS]: RiskAssessmentSchema,
+  [STORAGE_COLLECTIONS.PULL_REQUESTS]: PullRequestSchema,
+  [STORAGE_COLLECTIONS.TEST_REPORTS]: TestReportSchema,
+};
+
+function recordSchema(collection: string): z.ZodTypeAny | undefined {
+  return collection.startsWith(workspaceCollection(''))
+    ? VersionedArtifactSchema
+    : RECORD_SCHEMAS[collection];
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+const toDate = (value: any): Date | undefined =>
+  value === undefined || value === null ? undefined : new Date(value);
+
+/**
+ * An artifact as format v1 wrote it
+ */
+interface ArtifactV1 {
+  id: string;
+  version: string;
+  content: unknown;
+  dependencies?: unknown[];
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * A commit as format v1 wrote it. The oldest data has no object store
+ * fields: no tree, content or artifact hash.
+ */
+interface CommitV1 {
+  id: string;
+  artifactId: string;
+  artifactIds?: string[];
+  version: string;
+  parentCommits: string[];
+  timestamp: string;
+  tree?: Record<string, string>;
+  contentHash?: string;
+  artifactHash?: string;
+  lockfiles?: Record<string, string>;
+  approval?: { approvedAt?: string; [field: string]: unknown };
+  [field: string]: unknown;
+}
+
+/**
+ * Version 1 is the unversioned format: the repository fields plus one JSON
+ * string per service, with Dates as ISO strings
+ */
+interface SerializedRepositoryV1 {
+  config: RepositoryConfig;
+  artifacts?: Array<[string, ArtifactV1]>; // The oldest data: one global artifact map
+  workspaces?: Array<[string, Array<[string, ArtifactV1]>]>;
+  commits?: Array<[string, CommitV1]>;
+  environments?: Array<[string, any]>;
+  legalHolds?: Array<[string, any]>;
+  purged?: Array<[string, any]>;
+  objects?: string;
+  tags?: string;
+  branches?: string;
+  auditLogs?: string;
+  rollbacks?: string;
+  fdaCompliance?: string;
+}
+
+function migrateV1(data: SerializedRepositoryV1): SerializedRepository {
+  const parse = (text: string | undefined) => (text ? JSON.parse(text) : undefined);
+  const collections: Record<string, Array<[string, any]>> = {};
+
+  const reviveArtifact = (v: ArtifactV1) => ({
+    ...v,
+    dependencies: v.dependencies || [],
+    createdAt: toDate(v.createdAt),
+    updatedAt: toDate(v.updatedAt),
+    deletedAt: toDate(v.deletedAt),
+  });
+
+  // Workspaces; the oldest format had a single global artifact map
+  const workspaces: Array<[string, Array<[string, ArtifactV1]>]> = data.workspaces
+    || (data.artifacts ? [[data.config.defaultBranch, data.artifacts]] : []);
+
+  collections[STORAGE_COLLECTIONS.WORKSPACES] = workspaces.map(([branch]) => [branch, { branch, baseCommit: null }]);
+  for (const [branch, entries] of workspaces) {
+    collections[workspaceCollection(branch)] = entries.map(([k, v]) => [k, reviveArtifact(v)]);
+  }
+
+  const objects = new Map<string, string>(parse(data.objects)?.objects || []);
+  const store = (value: unknown) => {
+    const blob = ObjectStore.toBlob(value);
+    const hash = contentHash(blob);
+    objects.set(hash, blob);
+    return hash;
+  };
+
+  // The oldest commits recorded no content. Snapshot each from its artifact
+  // as serialized (the only content kept) at the committed version, and
+  // build trees along the history. Commits were written parents first.
+  const artifacts = new Map(workspaces.flatMap(([, entries]) => entries));
+  const trees = new Map<string, Record<string, string>>();
+
+  collections[STORAGE_COLLECTIONS.COMMITS] = (data.commits || []).map(([k, v]) => {
+    let { tree, contentHash: committedContent, artifactHash } = v;
+
+    if (!tree || !committedContent || !artifactHash) {
+      const artifact = artifacts.get(v.artifactId);
+      if (!artifact) {
+        throw new Error(`Cannot migrate commit "${v.id}": artifact "${v.artifactId}" is missing`);
+      }
+
+      const { content, ...record } = reviveArtifact(artifact);
+      committedContent = committedContent || store(content);
+      artifactHash = artifactHash || store({ ...record, version: v.version, contentHash: committedContent });
+      tree = tree || { ...trees.get(v.parentCommits[0]), [v.artifactId]: artifactHash };
+    }
+
+    trees.set(k, tree);
+
+    return [k, {
+      ...v,
+      artifactIds: v.artifactIds || [v.artifactId],
+      tree,
+      contentHash: committedContent,
+      artifactHash,
+      lockfiles: v.lockfiles || {},
+      timestamp: toDate(v.timestamp),
+      approval: v.approval && { ...v.approval, approvedAt: toDate(v.approval.approvedAt) },
+    }];
+  });
+
+  collections[STORAGE_COLLECTIONS.ENVIRONMENTS] = (data.environments || []).map(([k, v]: [string, any]) => [k, {
+    ...v,
+    lockfile: v.lockfile && { ...v.lockfile, generatedAt: toDate(v.lockfile.generatedAt) },
+    createdAt: toDate(v.createdAt),
+  }]);
+
+  collections[STORAGE_COLLECTIONS.OBJECTS] = Array.from(objects);
+
+  collections[STORAGE_COLLECTIONS.TAGS] = (parse(data.tags)?.tags || []).map(([k, v]: [string, any]) => [k, {
+    ...v,
+    createdAt: toDate(v.createdAt),
+  }]);
+
+  collections[STORAGE_COLLECTIONS.LEGAL_HOLDS] = (data.legalHolds || []).map(([k, v]: [string, any]) => [k, {
+    ...v,
+    placedAt: toDate(v.placedAt),
+    releasedAt: toDate(v.releasedAt),
+  }]);
+
+  collections[STORAGE_COLLECTIONS.PURGED] = (data.purged || []).map(([k, v]: [string, any]) => [k, {
+    ...v,
+    purgedAt: toDate(v.purgedAt),
+  }]);
+
+  const branches = parse(data.branches);
+  if (branches) {
+    collections[STORAGE_COLLECTIONS.BRANCHES] = branches.branches.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      createdAt: toDate(v.createdAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.REFLOG] = (branches.reflog || []).map(([k, entries]: [string, any[]]) => [
+      k,
+      entries.map(e => ({ ...e, timestamp: toDate(e.timestamp) })),
+    ]);
+    collections[STORAGE_COLLECTIONS.BRANCH_STATE] = [['currentBranch', branches.currentBranch || 'main']];
+  }
+
+  const audit = parse(data.auditLogs);
+  if (audit) {
+    collections[STORAGE_COLLECTIONS.AUDIT_LOG] = audit.logs.map((log: any, index: number) => [
+      auditLogKey(index + 1),
+      { ...log, timestamp: toDate(log.timestamp) },
+    ]);
+    collections[STORAGE_COLLECTIONS.AUDIT_STATE] = [
+      ['anchorHash', audit.logs[0]?.previousHash ?? audit.lastHash],
+      ['lastHash', audit.lastHash],
+      ['sequence', audit.logs.length],
+    ];
+  }
+
+  const rollbacks = parse(data.rollbacks);
+  if (rollbacks) {
+    collections[STORAGE_COLLECTIONS.ROLLBACKS] = rollbacks.rollbacks.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      timestamp: toDate(v.timestamp),
+      completedAt: toDate(v.completedAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.ROLLBACK_STATE] = [
+      ['lastRollbackTime', rollbacks.lastRollbackTime || 0],
+      ['rollbackCountLastHour', rollbacks.rollbackCountLastHour || 0],
+    ];
+  }
+
+  const fda = parse(data.fdaCompliance);
+  if (fda) {
+    collections[STORAGE_COLLECTIONS.RISK_ASSESSMENTS] = fda.riskAssessments.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      assessedAt: toDate(v.assessedAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.PULL_REQUESTS] = fda.pullRequests.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      approvals: (v.approvals || []).map((a: any) => ({ ...a, approvedAt: toDate(a.approvedAt) })),
+      createdAt: toDate(v.createdAt),
+      updatedAt: toDate(v.updatedAt),
+      mergedAt: toDate(v.mergedAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.TEST_REPORTS] = fda.testReports.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      executedAt: toDate(v.executedAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.REQUIREMENTS] = fda.requirements.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      createdAt: toDate(v.createdAt),
+    }]);
+    collections[STORAGE_COLLECTIONS.DESIGN_CONTROL_GATES] = fda.designControlGates.map(([k, v]: [string, any]) => [k, {
+      ...v,
+      approvedAt: toDate(v.approvedAt),
+    }]);
+  }
+
+  return { formatVersion: 2, config: data.config, collections };
+}
+
+/**
+ * Built-in format migrations
+ */
+export const DEFAULT_FORMAT_MIGRATIONS: FormatMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Per-service JSON strings to per-collection records',
+    migrate: migrateV1,
+  },
+];
+
+/**
+ * Format Migration Registry - Upgrades serialized repositories step by step
+ */
+export class FormatMigrationRegistry {
+  private migrations: Map<number, FormatMigration> = new Map();
+
+  constructor(migrations: FormatMigration[] = DEFAULT_FORMAT_MIGRATIONS) {
+    migrations.forEach(m => this.register(m));
+  }
+
+  /**
+   * Register a migration. Each format version has at most one way forward.
+   */
+  register(migration: FormatMigration): void {
+    if (migration.to <= migration.from) {
+      throw new Error(`Migration from v${migration.from} must move to a later version`);
+    }
+
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`A migration from format v${migration.from} is already registered`);
+    }
+
+    this.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * Upgrade data to a target format version (the current one by default)
+   */
+  migrate(data: any, targetVersion: number = REPOSITORY_FORMAT_VERSION): any {
+    let current = data;
+    let version = formatVersionOf(data);
+
+    if (version > targetVersion) {
+      throw new Error(`Repository format v${version} is newer than supported v${targetVersion}`);
+    }
+
+    while (version < targetVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No migration from repository format v${version}`);
+      }
+
+      current = migration.migrate(current);
+      version = migration.to;
+    }
+
+    return current;
+  }
+}
+
+/**
+ * Create a registry preloaded with the built-in migrations
+ */
+export function createFormatMigrationRegistry(): FormatMigrationRegistry {
+  return new FormatMigrationRegistry(DEFAULT_FORMAT_MIGRATIONS);
+}
+
+/**
+ * Format version of serialized data; unversioned data is version 1
+ */
+export function formatVersionOf(data: any): number {
+  return typeof data?.formatVersion === 'number' ? data.formatVersion : 1;
+}
+
+// ============================================================================
+// Serialize / Load
+// ============================================================================
+
+/**
+ * Names of every collection holding repository state
+ */
+export function listCollections(storage: StorageAdapter): string[] {
+  return [
+    ...Object.values(STORAGE_COLLECTIONS),
+    ...storage.keys(STORAGE_COLLECTIONS.WORKSPACES).sort().map(workspaceCollection),
+  ];
+}
+
+/**
+ * Serialize all repository state held by a storage adapter. Keys are
+ * sorted so the same state always serializes to the same text.
+ */
+export function serializeRepository(config: RepositoryConfig, storage: StorageAdapter): string {
+  const collections: SerializedRepository['collections'] = {};
+
+  for (const name of listCollections(storage)) {
+    const keys = storage.keys(name).sort();
+    if (keys.length > 0) {
+      collections[name] = keys.map(key => [key, storage.get(name, key)]);
+    }
+  }
+
+  const serialized: SerializedRepository = {
+    formatVersion: REPOSITORY_FORMAT_VERSION,
+    config,
+    collections,
+  };
+
+  return encodeRecord(serialized, 2);
+}
+
+/**
+ * Validate every record of serialized data against its schema
+ */
+export function validateSerializedRepository(data: SerializedRepository): string[] {
+  const errors: string[] = [];
+
+  const config = RepositoryConfigSchema.safeParse(data.config);
+  if (!config.success) {
+    errors.push(...config.error.issues.map(i => `config ${formatPath(i.path)}: ${i.message}`));
+  }
+
+  for (const [name, entries] of Object.entries(data.collections || {})) {
+    const schema = recordSchema(name);
+    if (!schema) continue;
+
+    for (const [key, record] of entries) {
+      const result = schema.safeParse(record);
+      if (!result.success) {
+        errors.push(...result.error.issues.map(i => `${name}["${key}"] ${formatPath(i.path)}: ${i.message}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse serialized data, upgrading older formats and validating records
+ */
+export function parseSerializedRepository(
+  text: string,
+  migrations: FormatMigrationRegistry = createFormatMigrationRegistry()
+): SerializedRepository {
+  const data: SerializedRepository = migrations.migrate(decodeRecord(text));
+  const errors = validateSerializedRepository(data);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid repository data: ${errors.join('; ')}`);
+  }
+
+  return data;
+}
+
+/**
+ * Replace the state held by a storage adapter with serialized records
+ */
+export function loadRepository(data: SerializedRepository, storage: StorageAdapter): void {
+  const names = new Set([...listCollections(storage), ...Object.keys(data.collections)]);
+
+  for (const name of names) {
+    storage.clear(name);
+  }
+
+  for (const [name, entries] of Object.entries(data.collections)) {
+    for (const [key, record] of entries) {
+      storage.set(name, key, record);
+    }
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Agent Pipeline Versioning - Storage Adapters
+ *
+ * Services keep their state in named collections of records, read and
+ * written through a StorageAdapter:
+ * - MemoryStorageAdapter keeps records in process memory (the default)
+ * - FileSystemStorageAdapter keeps one JSON file per record
+ * Other backends (e.g. a database) plug in by implementing StorageAdapter.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Storage backend for repository state.
+ *
+ * Calls are synchronous so that service reads stay synchronous; adapters
+ * for remote stores should serve reads from a local cache and write
+ * through. Records returned by get() may be copies, so callers write every
+ * change back with set(). Records are JSON data plus Date values.
+ */
+export interface StorageAdapter {
+  get<T = any>(collection: string, key: string): T | undefined;
+  set<T = any>(collection: string, key: string, value: T): void;
+  delete(collection: string, key: string): boolean;
+  keys(collection: string): string[];
+  clear(collection: string): void;
+}
+
+/**
+ * Collections used by the repository services
+ */
+export const STORAGE_COLLECTIONS = {
+  OBJECTS: 'objects',
+  COMMITS: 'commits',
+  ENVIRONMENTS: 'environments',
+  WORKSPACES: 'workspaces',
+  PENDING_MERGES: 'pending-merges',
+  LEGAL_HOLDS: 'legal-holds',
+  PURGED: 'purged',
+  TAGS: 'tags',
+  BRANCHES: 'branches',
+  REFLOG: 'reflog',
+  BRANCH_STATE: 'branch-state',
+  AUDIT_LOG: 'audit-log',
+  AUDIT_STATE: 'audit-state',
+  ROLLBACKS: 'rollbacks',
+  ROLLBACK_STATE: 'rollback-state',
+  RISK_ASSESSMENTS: 'risk-assessments',
+  PULL_REQUESTS: 'pull-requests',
+  TEST_REPORTS: 'test-reports',
+  REQUIREMENTS: 'requirements',
+  DESIGN_CONTROL_GATES: 'design-control-gates',
+  BUNDLES: 'bundles',
+  REMOTE_REFS: 'remote-refs',
+  CONTENT_SCHEMAS: 'content-schemas',
+} as const;
+
+/**
+ * Collection holding the uncommitted artifacts of one branch
+ */
+export function workspaceCollection(branchName: string): string {
+  return `workspace/${branchName}`;
+}
+
+// ============================================================================
+// Collections
+// ============================================================================
+
+/**
+ * Map-like view of one collection in a storage adapter
+ */
+export class StorageCollection<T> implements Iterable<[string, T]> {
+  constructor(
+    private readonly adapter: StorageAdapter,
+    readonly name: string
+  ) {}
+
+  get(key: string): T | undefined {
+    return this.adapter.get<T>(this.name, key);
+  }
+
+  set(key: string, value: T): this {
+    this.adapter.set<T>(this.name, key, value);
+    return this;
+  }
+
+  has(key: string): boolean {
+    return this.adapter.get(this.name, key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    return this.adapter.delete(this.name, key);
+  }
+
+  clear(): void {
+    this.adapter.clear(this.name);
+  }
+
+  get size(): number {
+    return this.adapter.keys(this.name).length;
+  }
+
+  keys(): string[] {
+    return this.adapter.keys(this.name);
+  }
+
+  values(): T[] {
+    return this.keys().map(key => this.get(key)!);
+  }
+
+  entries(): Array<[string, T]> {
+    return this.keys().map(key => [key, this.get(key)!]);
+  }
+
+  forEach(callback: (value: T, key: string) => void): void {
+    for (const [key, value] of this.entries()) {
+      callback(value, key);
+    }
+  }
+
+  [Symbol.iterator](): Iterator<[string, T]> {
+    return this.entries()[Symbol.iterator]();
+  }
+}
+
+// ============================================================================
+// Record Encoding
+// ============================================================================
+
+/**
+ * Encode a record as JSON, tagging Date values so they survive a round trip
+ */
+export function encodeRecord(value: any, indent?: number): string {
+  return JSON.stringify(value, function (this: any, key: string, encoded: any) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : encoded;
+  }, indent);
+}
+
+/**
+ * Decode a record written by encodeRecord
+ */
+export function decodeRecord<T = any>(text: string): T {
+  return JSON.parse(text, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+/**
+ * Write a file crash-safely: write and flush a temporary file, then rename
+ * it over the target so readers see either the old or the new contents
+ */
+export function writeFileAtomic(file: string, text: string): void {
+  const temp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(temp, 'w');
+
+  try {
+    fs.writeSync(fd, text);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  fs.renameSync(temp, file);
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * In-memory storage. Records are kept as given, in insertion order.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private collections: Map<string, Map<string, any>> = new Map();
+
+  private collection(name: string): Map<string, any> {
+    let collection = this.collections.get(name);
+
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(name, collection);
+    }
+
+    return collection;
+  }
+
+  get<T = any>(collection: string, key: string): T | undefined {
+    return this.collections.get(collection)?.get(key);
+  }
+
+  set<T = any>(collection: string, key: string, value: T): void {
+    this.collection(collection).set(key, value);
+  }
+
+  delete(collection: string, key: string): boolean {
+    return this.collections.get(collection)?.delete(key) ?? false;
+  }
+
+  keys(collection: string): string[] {
+    return Array.from(this.collections.get(collection)?.keys() ?? []);
+  }
+
+  clear(collection: string): void {
+    this.collections.delete(collection);
+  }
+}
+
+/**
+ * Filesystem storage: <root>/<collection>/<key>.json, one file per record.
+ * Each write goes to a temporary file that is then renamed over the
+ * record, so an interrupted write never leaves a partial record. Records
+ * are cached after the first read of their collection.
+ */
+export class FileSystemStorageAdapter implements StorageAdapter {
+  private cache: Map<string, Map<string, string>> = new Map();
+
+  constructor(readonly root: string) {
+    fs.mkdirSync(root, { recursive: true });
+  }
+
+  private directory(collection: string): string {
+    return path.join(this.root, encodeURIComponent(collection));
+  }
+
+  private file(collection: string, key: string): string {
+    return path.join(this.directory(collection), `${encodeURIComponent(key)}.json`);
+  }
+
+  /**
+   * Load a collection's records into the cache, in key order
+   */
+  private load(collection: string): Map<string, string> {
+    let records = this.cache.get(collection);
+    if (records) return records;
+
+    records = new Map();
+    const directory = this.directory(collection);
+
+    if (fs.existsSync(directory)) {
+      const files = fs.readdirSync(directory).filter(f => f.endsWith('.json')).sort();
+      for (const file of files) {
+        const key = decodeURIComponent(file.slice(0, -'.json'.length));
+        records.set(key, fs.readFileSync(path.join(directory, file), 'utf8'));
+      }
+    }
+
+    this.cache.set(collection, records);
+    return records;
+  }
+
+  get<T = any>(collection: string, key: string): T | undefined {
+    const text = this.load(collection).get(key);
+    return text === undefined ? undefined : decodeRecord<T>(text);
+  }
+
+  set<T = any>(collection: string, key: string, value: T): void {
+    const text = encodeRecord(value);
+
+    fs.mkdirSync(this.directory(collection), { recursive: true });
+    writeFileAtomic(this.file(collection, key), text);
+
+    this.load(collection).set(key, text);
+  }
+
+  delete(collection: string, key: string): boolean {
+    const records = this.load(collection);
+    if (!records.has(key)) return false;
+
+    fs.rmSync(this.file(collection, key), { force: true });
+    records.delete(key);
+    return true;
+  }
+
+  keys(collection: string): string[] {
+    return Array.from(this.load(collection).keys());
+  }
+
+  clear(collection: string): void {
+    fs.rmSync(this.directory(collection), { recursive: true, force: true });
+    this.cache.set(collection, new Map());
+  }
+}
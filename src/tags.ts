@@ -0,0 +1,283 @@
+/**
+ * Agent Pipeline Versioning - Tags and Releases
+ *
+ * Named, immutable pointers to commits such as v2.3.0 or release-2026Q3:
+ * - Tags cannot be moved or deleted through normal operations
+ * - Annotated tags carry a signed message and optional release notes
+ * - Moving or deleting a tag is a privileged action that requires a reason
+ */
+
+import { Tag, TagSchema } from './types';
+import { AuditLogService, AUDIT_ACTIONS } from './audit';
+import { CommitLookup } from './commit-graph';
+import { findNestedRef } from './branching';
+import { StorageAdapter, StorageCollection, MemoryStorageAdapter, STORAGE_COLLECTIONS } from './storage';
+
+/**
+ * Validate tag name
+ */
+export function validateTagName(name: string): { valid: boolean; error?: string } {
+  if (!name || name.trim() === '') {
+    return { valid: false, error: 'Tag name cannot be empty' };
+  }
+
+  if (name.includes('..')) {
+    return { valid: false, error: 'Tag name cannot contain consecutive dots' };
+  }
+
+  if (name.startsWith('/') || name.endsWith('/') || name.startsWith('-')) {
+    return { valid: false, error: 'Tag name cannot start or end with / or start with -' };
+  }
+
+  const invalidChars = [' ', '~', '^', ':', '?', '*', '[', '\\'];
+  for (const char of invalidChars) {
+    if (name.includes(char)) {
+      return { valid: false, error: `Tag name cannot contain "${char}"` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Tag Manager - Handles tag creation and privileged tag changes
+ */
+export class TagManager {
+  private tags: StorageCollection<Tag>;
+  private auditLog: AuditLogService;
+  private lookupCommit: CommitLookup;
+
+  constructor(
+    auditLog: AuditLogService,
+    lookupCommit: CommitLookup,
+    storage: StorageAdapter = new MemoryStorageAdapter()
+  ) {
+    this.auditLog = auditLog;
+    this.lookupCommit = lookupCommit;
+    this.tags = new StorageCollection(storage, STORAGE_COLLECTIONS.TAGS);
+  }
+
+  /**
+   * Create a tag. Tags are immutable once created.
+   */
+  async createTag(params: {
+    name: string;
+    commitId: string;
+    createdBy: string;
+    message?: string;
+    signature?: string;
+    releaseNotes?: string;
+  }): Promise<Tag> {
+    const validation = validateTagName(params.name);
+    if (!validation.valid) {
+      throw new Error(`Invalid tag name: ${validation.error}`);
+    }
+
+    if (this.tags.has(params.name)) {
+      throw new Error(`Tag "${params.name}" already exists and cannot be moved`);
+    }
+
+    this.assertNotNested(params.name);
+
+    if (!this.lookupCommit(params.commitId)) {
+      throw new Error(`Commit "${params.commitId}" not found`);
+    }
+
+    const tag: Tag = {
+      name: params.name,
+      commitId: params.commitId,
+      createdAt: new Date(),
+      createdBy: params.createdBy,
+      annotation: params.message !== undefined
+        ? { message: params.message, signature: params.signature }
+        : undefined,
+      releaseNotes: params.releaseNotes,
+    };
+
+    const validated = TagSchema.safeParse(tag);
+    if (!validated.success) {
+      throw new Error(`Invalid tag: ${validated.error.message}`);
+    }
+
+    this.tags.set(tag.name, tag);
+
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.ARTIFACT_TAGGED,
+      actor: params.createdBy,
+      target: params.commitId,
+      targetType: 'commit',
+      details: {
+        tag: tag.name,
+        annotated: !!tag.annotation,
+        signed: !!tag.annotation?.signature,
+        release: !!tag.releaseNotes,
+      },
+    });
+
+    return tag;
+  }
+
+  /**
+   * Store a tag received from another repository as is. Re-importing the
+   * same tag is a no-op; a tag of the same name on another commit is rejected.
+   */
+  importTag(tag: Tag): Tag {
+    const existing = this.tags.get(tag.name);
+
+    if (existing) {
+      if (existing.commitId !== tag.commitId) {
+        throw new Error(`Tag "${tag.name}" already exists and cannot be moved`);
+      }
+      return existing;
+    }
+
+    if (!this.lookupCommit(tag.commitId)) {
+      throw new Error(`Commit "${tag.commitId}" not found`);
+    }
+
+    this.assertNotNested(tag.name);
+
+    const validated = TagSchema.safeParse(tag);
+    if (!validated.success) {
+      throw new Error(`Invalid tag: ${validated.error.message}`);
+    }
+
+    this.tags.set(tag.name, tag);
+    return tag;
+  }
+
+  /**
+   * Get tag by name
+   */
+  getTag(name: string): Tag | undefined {
+    return this.tags.get(name);
+  }
+
+  /**
+   * List tags, optionally filtered by name pattern
+   */
+  listTags(pattern?: RegExp): Tag[] {
+    const tags = Array.from(this.tags.values());
+    return pattern ? tags.filter(t => pattern.test(t.name)) : tags;
+  }
+
+  /**
+   * Get tags pointing at a commit
+   */
+  getTagsForCommit(commitId: string): Tag[] {
+    return this.listTags().filter(t => t.commitId === commitId);
+  }
+
+  /**
+   * Require a reason for privileged tag changes
+   */
+  private requireReason(action: string, reason: string): void {
+    if (!reason || reason.trim() === '') {
+      throw new Error(`A reason is required to ${action} a tag`);
+    }
+  }
+
+  /**
+   * Reject a tag name that nests with an existing one
+   */
+  private assertNotNested(name: string): void {
+    const nested = findNestedRef(name, this.tags.keys());
+    if (nested) {
+      throw new Error(`Tag "${name}" conflicts with tag "${nested}"; a tag name cannot be a folder of another`);
+    }
+  }
+
+  /**
+   * Delete a tag. Privileged: the reason is recorded in the audit log.
+   */
+  async forceDeleteTag(name: string, deletedBy: string, reason: string): Promise<void> {
+    this.requireReason('delete', reason);
+
+    const tag = this.tags.get(name);
+    if (!tag) {
+      throw new Error(`Tag "${name}" does not exist`);
+    }
+
+    this.tags.delete(name);
+
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.TAG_DELETED,
+      actor: deletedBy,
+      target: tag.commitId,
+      targetType: 'commit',
+      details: { tag: name, reason, privileged: true },
+    });
+  }
+
+  /**
+   * Point a tag at a different commit. Privileged: the previous target and
+   * the reason are recorded in the audit log. The annotation signature is
+   * dropped because it no longer matches the commit.
+   */
+  async forceMoveTag(
+    name: string,
+    commitId: string,
+    movedBy: string,
+    reason: string,
+    signature?: string
+  ): Promise<Tag> {
+    this.requireReason('move', reason);
+
+    const tag = this.tags.get(name);
+    if (!tag) {
+      throw new Error(`Tag "${name}" does not exist`);
+    }
+
+    if (!this.lookupCommit(commitId)) {
+      throw new Error(`Commit "${commitId}" not found`);
+    }
+
+    const previousCommitId = tag.commitId;
+    const moved: Tag = {
+      ...tag,
+      commitId,
+      annotation: tag.annotation ? { message: tag.annotation.message, signature } : undefined,
+    };
+
+    this.tags.set(name, moved);
+
+    await this.auditLog.log({
+      action: AUDIT_ACTIONS.TAG_MOVED,
+      actor: movedBy,
+      target: commitId,
+      targetType: 'commit',
+      details: { tag: name, previousCommitId, reason, privileged: true },
+    });
+
+    return moved;
+  }
+
+  /**
+   * Serialize tags for storage
+   */
+  serialize(): string {
+    return JSON.stringify({
+      tags: Array.from(this.tags.entries()),
+    }, null, 2);
+  }
+
+  /**
+   * Deserialize tags from storage
+   */
+  static deserialize(
+    data: string,
+    auditLog: AuditLogService,
+    lookupCommit: CommitLookup,
+    storage?: StorageAdapter
+  ): TagManager {
+    const parsed = JSON.parse(data);
+    const manager = new TagManager(auditLog, lookupCommit, storage);
+
+    manager.tags.clear();
+    for (const [name, tag] of parsed.tags as [string, any][]) {
+      manager.tags.set(name, { ...tag, createdAt: new Date(tag.createdAt) });
+    }
+
+    return manager;
+  }
+}
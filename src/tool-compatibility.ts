@@ -0,0 +1,227 @@
+/**
+ * Agent Pipeline Versioning - Tool Contract Compatibility
+ *
+ * Compares the JSON Schema contracts of two tool versions:
+ * - Inputs must keep accepting every call that was valid before
+ * - Outputs must keep providing everything callers relied on
+ * Each change is classified as breaking or non-breaking.
+ */
+
+import { formatPath, PathSegment } from './diff';
+
+/**
+ * One difference between two tool contracts
+ */
+export interface ToolContractChange {
+  kind:
+    | 'parameter-added'
+    | 'parameter-removed'
+    | 'became-required'
+    | 'became-optional'
+    | 'type-changed'
+    | 'enum-narrowed'
+    | 'enum-widened'
+    | 'constraint-tightened'
+    | 'constraint-loosened'
+    | 'output-field-added'
+    | 'output-field-removed';
+  breaking: boolean;
+  direction: 'input' | 'output';
+  path: string; // JSON path into the tool content
+  message: string;
+}
+
+/**
+ * Result of comparing two tool versions
+ */
+export interface ToolCompatibilityReport {
+  compatible: boolean;
+  changes: ToolContractChange[];
+  breaking: ToolContractChange[];
+}
+
+type Direction = ToolContractChange['direction'];
+
+function typesOf(schema: any): string[] | undefined {
+  if (schema?.type === undefined) return undefined;
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function isSubset(a: any[], b: any[]): boolean {
+  return a.every(value => b.some(other => JSON.stringify(other) === JSON.stringify(value)));
+}
+
+// Constraints where a larger value accepts fewer values, and vice versa
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+/**
+ * Compare two schemas. "Narrower" means the new schema accepts fewer
+ * values, which breaks inputs; "wider" means it accepts more, which
+ * breaks outputs.
+ */
+function compareSchemas(
+  before: any,
+  after: any,
+  path: PathSegment[],
+  direction: Direction,
+  changes: ToolContractChange[]
+): void {
+  const at = formatPath(path);
+  const push = (kind: ToolContractChange['kind'], narrower: boolean, message: string) => {
+    changes.push({
+      kind,
+      breaking: direction === 'input' ? narrower : !narrower,
+      direction,
+      path: at,
+      message,
+    });
+  };
+
+  // Types
+  const oldTypes = typesOf(before);
+  const newTypes = typesOf(after);
+  if (JSON.stringify(oldTypes) !== JSON.stringify(newTypes)) {
+    const wider = !newTypes || (!!oldTypes && isSubset(oldTypes, newTypes));
+    const narrower = !oldTypes || (!!newTypes && isSubset(newTypes, oldTypes));
+    changes.push({
+      kind: 'type-changed',
+      breaking: direction === 'input' ? !wider : !narrower,
+      direction,
+      path: at,
+      message: `Type changed from ${JSON.stringify(oldTypes ?? 'any')} to ${JSON.stringify(newTypes ?? 'any')}`,
+    });
+  }
+
+  // Enums
+  const oldEnum: any[] | undefined = Array.isArray(before?.enum) ? before.enum : undefined;
+  const newEnum: any[] | undefined = Array.isArray(after?.enum) ? after.enum : undefined;
+  if (JSON.stringify(oldEnum) !== JSON.stringify(newEnum)) {
+    if (newEnum && (!oldEnum || !isSubset(oldEnum, newEnum))) {
+      const removed = oldEnum ? oldEnum.filter(v => !isSubset([v], newEnum)) : [];
+      push('enum-narrowed', true, oldEnum
+        ? `Enum no longer allows ${removed.map(v => JSON.stringify(v)).join(', ')}`
+        : 'Enum restriction added');
+    } else if (!newEnum || (oldEnum && !isSubset(newEnum, oldEnum))) {
+      push('enum-widened', false, newEnum
+        ? `Enum now also allows ${newEnum.filter(v => !isSubset([v], oldEnum!)).map(v => JSON.stringify(v)).join(', ')}`
+        : 'Enum restriction removed');
+    }
+  }
+
+  // Numeric, length and size constraints
+  for (const key of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const oldValue = before?.[key];
+    const newValue = after?.[key];
+    if (oldValue === newValue) continue;
+
+    const isLower = LOWER_BOUNDS.includes(key);
+    const tightened = newValue !== undefined &&
+      (oldValue === undefined || (isLower ? newValue > oldValue : newValue < oldValue));
+
+    push(
+      tightened ? 'constraint-tightened' : 'constraint-loosened',
+      tightened,
+      `"${key}" changed from ${oldValue ?? 'unset'} to ${newValue ?? 'unset'}`
+    );
+  }
+
+  // Object properties
+  const oldProps: Record<string, any> = before?.properties || {};
+  const newProps: Record<string, any> = after?.properties || {};
+  const oldRequired: string[] = Array.isArray(before?.required) ? before.required : [];
+  const newRequired: string[] = Array.isArray(after?.required) ? after.required : [];
+
+  for (const name of Object.keys(oldProps)) {
+    const propertyPath = [...path, 'properties', name];
+
+    if (!(name in newProps)) {
+      changes.push(direction === 'input'
+        ? {
+            kind: 'parameter-removed',
+            breaking: true,
+            direction,
+            path: formatPath(propertyPath),
+            message: `Parameter "${name}" removed`,
+          }
+        : {
+            kind: 'output-field-removed',
+            breaking: true,
+            direction,
+            path: formatPath(propertyPath),
+            message: `Output field "${name}" removed`,
+          });
+      continue;
+    }
+
+    const wasRequired = oldRequired.includes(name);
+    const isRequired = newRequired.includes(name);
+
+    if (!wasRequired && isRequired) {
+      changes.push({
+        kind: 'became-required',
+        breaking: direction === 'input',
+        direction,
+        path: formatPath(propertyPath),
+        message: `"${name}" became required`,
+      });
+    } else if (wasRequired && !isRequired) {
+      changes.push({
+        kind: 'became-optional',
+        breaking: direction === 'output',
+        direction,
+        path: formatPath(propertyPath),
+        message: `"${name}" became optional`,
+      });
+    }
+
+    compareSchemas(oldProps[name], newProps[name], propertyPath, direction, changes);
+  }
+
+  for (const name of Object.keys(newProps)) {
+    if (name in oldProps) continue;
+    const required = newRequired.includes(name);
+
+    changes.push(direction === 'input'
+      ? {
+          kind: 'parameter-added',
+          breaking: required,
+          direction,
+          path: formatPath([...path, 'properties', name]),
+          message: `${required ? 'Required' : 'Optional'} parameter "${name}" added`,
+        }
+      : {
+          kind: 'output-field-added',
+          breaking: false,
+          direction,
+          path: formatPath([...path, 'properties', name]),
+          message: `Output field "${name}" added`,
+        });
+  }
+
+  // Array items
+  if (before?.items || after?.items) {
+    compareSchemas(before?.items, after?.items, [...path, 'items'], direction, changes);
+  }
+}
+
+/**
+ * Check whether a new tool version is compatible with callers of the old one
+ */
+export function checkToolCompatibility(oldContent: any, newContent: any): ToolCompatibilityReport {
+  const changes: ToolContractChange[] = [];
+
+  compareSchemas(oldContent?.inputSchema, newContent?.inputSchema, ['inputSchema'], 'input', changes);
+
+  if (oldContent?.outputSchema || newContent?.outputSchema) {
+    compareSchemas(oldContent?.outputSchema, newContent?.outputSchema, ['outputSchema'], 'output', changes);
+  }
+
+  const breaking = changes.filter(c => c.breaking);
+
+  return {
+    compatible: breaking.length === 0,
+    changes,
+    breaking,
+  };
+}
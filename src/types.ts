@@ -26,7 +26,7 @@ export type RollbackTrigger = z.infer<typeof RollbackTriggerSchema>;
 export const RollbackStatusSchema = z.enum(['pending', 'in_progress', 'completed', 'failed']);
 export type RollbackStatus = z.infer<typeof RollbackStatusSchema>;
 
-export const ChangeTypeSchema = z.enum(['add', 'modify', 'delete']);
+export const ChangeTypeSchema = z.enum(['add', 'modify', 'delete', 'move']);
 export type ChangeType = z.infer<typeof ChangeTypeSchema>;
 
 export const TriggerReasonSchema = z.enum([
@@ -42,6 +42,22 @@ export type TriggerReason = z.infer<typeof TriggerReasonSchema>;
 // Core Data Models
 // ============================================================================
 
+/**
+ * SemVer 2.0.0 version, with optional prerelease and build metadata
+ */
+export const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * A declared dependency on another artifact by name and version range,
+ * e.g. a workflow depending on prompt "triage" at "^1.2.0".
+ */
+export const DependencyReferenceSchema = z.object({
+  name: z.string().min(1),
+  range: z.string().min(1).default('*'), // npm-style semver range
+  type: ArtifactTypeSchema.optional(), // Disambiguates artifacts sharing a name
+});
+export type DependencyReference = z.infer<typeof DependencyReferenceSchema>;
+
 /**
  * Represents a versioned artifact in the system.
  * Artifacts are the primary units of version control.
@@ -50,14 +66,19 @@ export const VersionedArtifactSchema = z.object({
   id: z.string().uuid(),
   type: ArtifactTypeSchema,
   name: z.string().min(1),
-  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'SemVer format required'),
+  version: z.string().regex(SEMVER_PATTERN, 'SemVer format required'),
   description: z.string().optional(),
   content: z.any(),
+  schemaVersion: z.number().int().positive().optional(), // Content schema version the content was written with
   metadata: z.record(z.any()).default({}),
   createdAt: z.date(),
   updatedAt: z.date(),
   createdBy: z.string(),
   tags: z.array(z.string()).default([]),
+  dependencies: z.array(DependencyReferenceSchema).default([]),
+  deletedAt: z.date().optional(), // Set on tombstones; history is kept until purge
+  deletedBy: z.string().optional(),
+  deletionReason: z.string().optional(),
 });
 export type VersionedArtifact = z.infer<typeof VersionedArtifactSchema>;
 
@@ -66,8 +87,10 @@ export type VersionedArtifact = z.infer<typeof VersionedArtifactSchema>;
  */
 export const ChangeSchema = z.object({
   id: z.string().uuid(),
+  artifactId: z.string().uuid().optional(), // Set when a commit spans several artifacts
   type: ChangeTypeSchema,
-  path: z.string(),
+  path: z.string(), // JSON path, e.g. $.nodes[0].name
+  fromPath: z.string().optional(), // Previous location for moves
   oldValue: z.any().optional(),
   newValue: z.any().optional(),
   description: z.string().optional(),
@@ -80,11 +103,16 @@ export type Change = z.infer<typeof ChangeSchema>;
  */
 export const CommitSchema = z.object({
   id: z.string().uuid(),
-  artifactId: z.string().uuid(),
+  artifactId: z.string().uuid(), // Primary artifact (first of artifactIds)
+  artifactIds: z.array(z.string().uuid()).min(1), // Every artifact committed together as one unit
   version: z.string(),
   message: z.string(),
   author: z.string(),
   signature: z.string(), // Cryptographic signature for verification
+  contentHash: z.string(), // Address of the committed content in the object store
+  artifactHash: z.string(), // Address of the committed artifact record in the object store
+  tree: z.record(z.string()), // Artifact ID -> artifact record address for every artifact on the branch
+  lockfiles: z.record(z.string()).default({}), // Workflow artifact ID -> lockfile address
   parentCommits: z.array(z.string().uuid()).default([]),
   timestamp: z.date(),
   changes: z.array(ChangeSchema).default([]),
@@ -116,6 +144,50 @@ export const BranchSchema = z.object({
 });
 export type Branch = z.infer<typeof BranchSchema>;
 
+/**
+ * Immutable named pointer to a commit, optionally annotated and signed.
+ */
+export const TagSchema = z.object({
+  name: z.string().min(1),
+  commitId: z.string().uuid(),
+  createdAt: z.date(),
+  createdBy: z.string(),
+  annotation: z.object({
+    message: z.string(),
+    signature: z.string().optional(),
+  }).optional(),
+  releaseNotes: z.string().optional(),
+});
+export type Tag = z.infer<typeof TagSchema>;
+
+/**
+ * A legal hold preventing an artifact from being purged.
+ */
+export const LegalHoldSchema = z.object({
+  id: z.string().uuid(),
+  artifactId: z.string().uuid(),
+  reason: z.string().min(1),
+  placedBy: z.string(),
+  placedAt: z.date(),
+  releasedBy: z.string().optional(),
+  releasedAt: z.date().optional(),
+  releaseReason: z.string().optional(),
+});
+export type LegalHold = z.infer<typeof LegalHoldSchema>;
+
+/**
+ * Record of an artifact whose content was purged after its retention period.
+ */
+export const PurgeRecordSchema = z.object({
+  artifactId: z.string().uuid(),
+  name: z.string(),
+  purgedBy: z.string(),
+  purgedAt: z.date(),
+  reason: z.string().min(1),
+  contentHashes: z.array(z.string()),
+});
+export type PurgeRecord = z.infer<typeof PurgeRecordSchema>;
+
 /**
  * Immutable audit log entry for compliance.
  */
@@ -124,7 +196,7 @@ export const AuditLogSchema = z.object({
   action: z.string(),
   actor: z.string(),
   target: z.string(),
-  targetType: z.enum(['artifact', 'commit', 'branch', 'rollback', 'environment']),
+  targetType: z.enum(['artifact', 'commit', 'branch', 'rollback', 'environment', 'repository']),
   timestamp: z.date(),
   details: z.record(z.any()).default({}),
   hash: z.string(), // SHA-256 for integrity verification
@@ -229,6 +301,37 @@ export const TestReportSchema = z.object({
 });
 export type TestReport = z.infer<typeof TestReportSchema>;
 
+/**
+ * One artifact pinned by a lockfile, with the references it resolved
+ */
+export const LockedArtifactSchema = z.object({
+  artifactId: z.string().uuid(),
+  name: z.string(),
+  type: ArtifactTypeSchema,
+  version: z.string(),
+  contentHash: z.string(),
+  artifactHash: z.string(),
+  dependencies: z.record(z.string()), // "name@range" -> locked artifact ID
+});
+export type LockedArtifact = z.infer<typeof LockedArtifactSchema>;
+
+/**
+ * The exact artifact set a workflow resolved to, including every
+ * transitive dependency, pinned by content hash.
+ */
+export const LockfileSchema = z.object({
+  lockfileVersion: z.literal(1),
+  workflow: z.object({
+    artifactId: z.string().uuid(),
+    name: z.string(),
+    version: z.string(),
+  }),
+  artifacts: z.record(LockedArtifactSchema), // Artifact ID -> locked artifact, workflow included
+  integrity: z.string(), // Hash over the locked artifacts
+  generatedAt: z.date(),
+});
+export type Lockfile = z.infer<typeof LockfileSchema>;
+
 /**
  * Environment snapshot for reproducibility.
  */
@@ -236,6 +339,8 @@ export const EnvironmentSnapshotSchema = z.object({
   id: z.string().uuid(),
   workflowVersion: z.string(),
   dependencies: z.record(z.string()),
+  lockfile: LockfileSchema.optional(),
+  lockfileHash: z.string().optional(), // Address of the lockfile in the object store
   environmentVariables: z.record(z.string()).default({}),
   platform: z.string(),
   nodeVersion: z.string(),
@@ -246,6 +351,37 @@ export const EnvironmentSnapshotSchema = z.object({
 });
 export type EnvironmentSnapshot = z.infer<typeof EnvironmentSnapshotSchema>;
 
+// ============================================================================
+// Time-Travel Views
+// ============================================================================
+
+/**
+ * Artifact record as stored in the object store.
+ * Content is stored separately and referenced by hash.
+ */
+export type ArtifactSnapshot = Omit<VersionedArtifact, 'content'> & { contentHash: string };
+
+/**
+ * Selects a historical state of an artifact: at a commit, at a version,
+ * at a tag, or as it was on a branch at a point in time.
+ */
+export type ArtifactSelector =
+  | { commitId: string }
+  | { version: string }
+  | { tag: string }
+  | { asOf: Date; branch?: string };
+
+/**
+ * Repository-wide view as of a point in time.
+ */
+export interface RepositorySnapshot {
+  asOf: Date;
+  branch: string;
+  branches: Array<{ name: string; headCommit: string | null }>;
+  artifacts: VersionedArtifact[];
+  environments: EnvironmentSnapshot[];
+}
+
 // ============================================================================
 // Repository Configuration
 // ============================================================================
@@ -271,11 +407,22 @@ export type RepositoryConfig = z.infer<typeof RepositoryConfigSchema>;
 // Version bump types for semantic versioning
 // ============================================================================
 
+/**
+ * Explains why a version rule chose a bump level.
+ */
+export interface VersionBumpReason {
+  ruleId: string;
+  type: VersionType;
+  reason: string;
+  path?: string;
+}
+
 export interface VersionBump {
   type: VersionType;
   oldVersion: string;
   newVersion: string;
   changes: Change[];
+  reasons: VersionBumpReason[];
 }
 
 // ============================================================================
@@ -290,46 +437,169 @@ export function createCommitId(): string {
   return crypto.randomUUID();
 }
 
-export function parseVersion(version: string): { major: number; minor: number; patch: number } {
-  const [major, minor, patch] = version.split('.').map(Number);
-  return { major, minor, patch };
+/**
+ * A parsed SemVer 2.0.0 version
+ */
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>; // e.g. ['rc', 1] for 2.0.0-rc.1
+  build: string[];
+}
+
+export function parseVersion(version: string): ParsedVersion {
+  const match = SEMVER_PATTERN.exec(version);
+
+  if (!match) {
+    throw new Error(`Invalid version "${version}"`);
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+      ? match[4].split('.').map(id => /^\d+$/.test(id) ? Number(id) : id)
+      : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return SEMVER_PATTERN.test(version);
+}
+
+export function formatVersion(
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: Array<string | number> = [],
+  build: string[] = []
+): string {
+  let version = `${major}.${minor}.${patch}`;
+  if (prerelease.length > 0) version += `-${prerelease.join('.')}`;
+  if (build.length > 0) version += `+${build.join('.')}`;
+  return version;
 }
 
-export function formatVersion(major: number, minor: number, patch: number): string {
-  return `${major}.${minor}.${patch}`;
+/**
+ * Compare prerelease identifiers: numeric identifiers sort before
+ * alphanumeric ones, and a longer list wins when all shared ones are equal
+ */
+function comparePrerelease(a: Array<string | number>, b: Array<string | number>): number {
+  // A release has higher precedence than any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') return (a[i] as number) - (b[i] as number);
+    if (typeof a[i] === 'number') return -1;
+    if (typeof b[i] === 'number') return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare versions by SemVer precedence. Build metadata is ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  return (left.major - right.major) ||
+    (left.minor - right.minor) ||
+    (left.patch - right.patch) ||
+    comparePrerelease(left.prerelease, right.prerelease);
+}
+
+/**
+ * Whether a version is a prerelease
+ */
+export function isPrerelease(version: string): boolean {
+  return parseVersion(version).prerelease.length > 0;
 }
 
-export function bumpVersion(currentVersion: string, type: VersionType): VersionBump {
-  const { major, minor, patch } = parseVersion(currentVersion);
+/**
+ * Promote a prerelease to its release, e.g. 2.0.0-rc.3 -> 2.0.0
+ */
+export function promoteVersion(version: string): string {
+  const { major, minor, patch } = parseVersion(version);
+  return formatVersion(major, minor, patch);
+}
+
+/**
+ * Next prerelease of a target release: 2.0.0-rc.1 -> 2.0.0-rc.2, or
+ * 2.0.0-rc.1 when the current version is not yet a prerelease of it
+ */
+export function nextPrerelease(currentVersion: string, targetRelease: string, identifier: string = 'rc'): string {
+  const target = parseVersion(targetRelease);
+  const current = parseVersion(currentVersion);
+  const sameRelease = current.major === target.major &&
+    current.minor === target.minor &&
+    current.patch === target.patch;
+
+  if (sameRelease && current.prerelease[0] === identifier && typeof current.prerelease[1] === 'number') {
+    return formatVersion(target.major, target.minor, target.patch, [identifier, current.prerelease[1] + 1]);
+  }
+
+  return formatVersion(target.major, target.minor, target.patch, [identifier, 1]);
+}
+
+export function bumpVersion(
+  currentVersion: string,
+  type: VersionType,
+  changes: Change[] = [],
+  reasons: VersionBumpReason[] = []
+): VersionBump {
+  const { major, minor, patch, prerelease } = parseVersion(currentVersion);
   let newVersion: string;
 
-  switch (type) {
-    case 'MAJOR':
-      newVersion = formatVersion(major + 1, 0, 0);
-      break;
-    case 'MINOR':
-      newVersion = formatVersion(major, minor + 1, 0);
-      break;
-    case 'PATCH':
-      newVersion = formatVersion(major, minor, patch + 1);
-      break;
+  // A prerelease whose release already covers the bump level moves to its
+  // next prerelease (2.0.0-rc.1 -> 2.0.0-rc.2); otherwise the bump starts a
+  // new prerelease series with the same identifier (1.3.0-rc.1 -> 2.0.0-rc.1)
+  if (prerelease.length > 0) {
+    const covered = type === 'PATCH' ||
+      (type === 'MINOR' && patch === 0) ||
+      (type === 'MAJOR' && minor === 0 && patch === 0);
+    const identifier = typeof prerelease[0] === 'string' ? prerelease[0] : 'rc';
+    const target = covered
+      ? formatVersion(major, minor, patch)
+      : bumpVersion(formatVersion(major, minor, patch), type).newVersion;
+
+    newVersion = covered && typeof prerelease[prerelease.length - 1] === 'number'
+      ? formatVersion(major, minor, patch, [
+          ...prerelease.slice(0, -1),
+          (prerelease[prerelease.length - 1] as number) + 1,
+        ])
+      : nextPrerelease(currentVersion, target, identifier);
+  } else {
+    switch (type) {
+      case 'MAJOR':
+        newVersion = formatVersion(major + 1, 0, 0);
+        break;
+      case 'MINOR':
+        newVersion = formatVersion(major, minor + 1, 0);
+        break;
+      case 'PATCH':
+        newVersion = formatVersion(major, minor, patch + 1);
+        break;
+    }
   }
 
   return {
     type,
     oldVersion: currentVersion,
     newVersion,
-    changes: [],
+    changes,
+    reasons,
   };
 }
 
-export function detectVersionType(oldContent: any, newContent: any): VersionType {
-  // This is a simplified heuristic - in production, you'd have more sophisticated detection
-  // MAJOR: Complete structural changes, removed features, API breaking changes
-  // MINOR: New features, backward compatible additions
-  // PATCH: Bug fixes, performance improvements
-
-  // For now, default to PATCH for small changes, MINOR for new features
-  // In a real implementation, this would analyze the actual diff
-  return 'PATCH';
-}
+// Version detection moved to version-rules.ts with optional artifact type and
+// rule registry parameters; the two-argument form still works from here.
+export { detectVersionType } from './version-rules';
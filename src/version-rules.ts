@@ -0,0 +1,344 @@
+/**
+ * Agent Pipeline Versioning - Semantic Version Detection
+ *
+ * Decides whether a content change is a MAJOR, MINOR or PATCH bump using
+ * pluggable rule sets per artifact type. Every decision carries the reasons
+ * that led to it and the diff it was based on.
+ */
+
+import {
+  ArtifactType,
+  Change,
+  VersionType,
+  VersionBump,
+  VersionBumpReason,
+  bumpVersion,
+} from './types';
+import { diffContent, isPathWithin } from './diff';
+import { diffPromptVariables } from './prompt-template';
+import { checkToolCompatibility } from './tool-compatibility';
+
+/**
+ * Input passed to every version rule
+ */
+export interface VersionRuleContext {
+  artifactType: ArtifactType;
+  oldContent: any;
+  newContent: any;
+  changes: Change[];
+}
+
+/**
+ * A version rule inspects a change set and reports the bumps it requires
+ */
+export interface VersionRule {
+  id: string;
+  description: string;
+  artifactTypes: ArtifactType[] | '*';
+  evaluate(context: VersionRuleContext): Omit<VersionBumpReason, 'ruleId'>[];
+}
+
+/**
+ * Result of running the rule set against a change
+ */
+export interface VersionDecision {
+  type: VersionType;
+  reasons: VersionBumpReason[];
+  changes: Change[];
+}
+
+const VERSION_TYPE_RANK: Record<VersionType, number> = {
+  PATCH: 0,
+  MINOR: 1,
+  MAJOR: 2,
+};
+
+/**
+ * Pick the more significant of two version types
+ */
+export function maxVersionType(a: VersionType, b: VersionType): VersionType {
+  return VERSION_TYPE_RANK[a] >= VERSION_TYPE_RANK[b] ? a : b;
+}
+
+/**
+ * Version Rule Registry - Holds the rule set used for bump detection
+ */
+export class VersionRuleRegistry {
+  private rules: Map<string, VersionRule> = new Map();
+
+  constructor(rules: VersionRule[] = []) {
+    for (const rule of rules) {
+      this.register(rule);
+    }
+  }
+
+  /**
+   * Register a rule, replacing any rule with the same ID
+   */
+  register(rule: VersionRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove a rule
+   */
+  unregister(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  /**
+   * Get rules that apply to an artifact type
+   */
+  getRules(artifactType?: ArtifactType): VersionRule[] {
+    const rules = Array.from(this.rules.values());
+    if (!artifactType) return rules;
+    return rules.filter(r => r.artifactTypes === '*' || r.artifactTypes.includes(artifactType));
+  }
+
+  /**
+   * Decide the version bump for a content change
+   */
+  detect(artifactType: ArtifactType, oldContent: any, newContent: any): VersionDecision {
+    const changes = diffContent(oldContent, newContent);
+
+    if (changes.length === 0) {
+      return {
+        type: 'PATCH',
+        reasons: [{ ruleId: 'unchanged', type: 'PATCH', reason: 'Content unchanged; metadata-only change' }],
+        changes,
+      };
+    }
+
+    const context: VersionRuleContext = { artifactType, oldContent, newContent, changes };
+    const reasons: VersionBumpReason[] = [];
+
+    for (const rule of this.getRules(artifactType)) {
+      for (const match of rule.evaluate(context)) {
+        reasons.push({ ruleId: rule.id, ...match });
+      }
+    }
+
+    // Changes no rule spoke for are listed one by one rather than folded
+    // silently into the PATCH default
+    for (const change of changes) {
+      const covered = reasons.some(r => r.path !== undefined
+        && (isPathWithin(change.path, r.path) || isPathWithin(r.path, change.path)));
+
+      if (!covered) {
+        reasons.push({
+          ruleId: 'unmatched',
+          type: 'PATCH',
+          reason: `No rule matched ${change.type} at ${change.path}; defaulting to PATCH`,
+          path: change.path,
+        });
+      }
+    }
+
+    const type = reasons.reduce<VersionType>((acc, r) => maxVersionType(acc, r.type), 'PATCH');
+    reasons.sort((a, b) => VERSION_TYPE_RANK[b.type] - VERSION_TYPE_RANK[a.type]);
+
+    return { type, reasons, changes };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function changesUnder(changes: Change[], path: string): Change[] {
+  return changes.filter(c => isPathWithin(c.path, path));
+}
+
+function isArrayElementPath(path: string, arrayPath: string): boolean {
+  return path.startsWith(arrayPath + '[') && /^\[\d+\]$/.test(path.slice(arrayPath.length));
+}
+
+// ============================================================================
+// Default Rules
+// ============================================================================
+
+const workflowNodeRule: VersionRule = {
+  id: 'workflow-nodes',
+  description: 'Removing a workflow node is MAJOR, adding one is MINOR',
+  artifactTypes: ['workflow'],
+  evaluate({ changes }) {
+    const reasons: Omit<VersionBumpReason, 'ruleId'>[] = [];
+
+    for (const change of changesUnder(changes, '$.nodes')) {
+      const isNode = change.path === '$.nodes' || isArrayElementPath(change.path, '$.nodes');
+      if (!isNode) continue;
+
+      if (change.type === 'delete') {
+        reasons.push({ type: 'MAJOR', reason: 'Workflow node removed', path: change.path });
+      } else if (change.type === 'add') {
+        reasons.push({ type: 'MINOR', reason: 'Workflow node added', path: change.path });
+      }
+    }
+
+    return reasons;
+  },
+};
+
+const workflowEntryRule: VersionRule = {
+  id: 'workflow-entry',
+  description: 'Changing the workflow entry point is MAJOR',
+  artifactTypes: ['workflow'],
+  evaluate({ changes }) {
+    return changesUnder(changes, '$.entry').map(change => ({
+      type: 'MAJOR' as VersionType,
+      reason: 'Workflow entry point changed',
+      path: change.path,
+    }));
+  },
+};
+
+const workflowEdgeRule: VersionRule = {
+  id: 'workflow-edges',
+  description: 'Adding or removing workflow edges is MINOR',
+  artifactTypes: ['workflow'],
+  evaluate({ changes }) {
+    return changesUnder(changes, '$.edges')
+      .filter(c => c.type === 'add' || c.type === 'delete')
+      .map(change => ({
+        type: 'MINOR' as VersionType,
+        reason: change.type === 'add' ? 'Workflow edge added' : 'Workflow edge removed',
+        path: change.path,
+      }));
+  },
+};
+
+const promptVariableRule: VersionRule = {
+  id: 'prompt-variables',
+  description: 'Removing or requiring a prompt variable is MAJOR, adding an optional one is MINOR',
+  artifactTypes: ['prompt'],
+  evaluate({ oldContent, newContent }) {
+    const reasons: Omit<VersionBumpReason, 'ruleId'>[] = [];
+    const diff = diffPromptVariables(oldContent, newContent);
+
+    for (const variable of diff.removed) {
+      reasons.push({ type: 'MAJOR', reason: `Prompt variable "${variable.name}" removed`, path: '$.variables' });
+    }
+
+    for (const variable of diff.added) {
+      reasons.push(variable.required
+        ? { type: 'MAJOR', reason: `Required prompt variable "${variable.name}" added`, path: '$.variables' }
+        : { type: 'MINOR', reason: `Optional prompt variable "${variable.name}" added`, path: '$.variables' });
+    }
+
+    for (const name of diff.becameRequired) {
+      reasons.push({ type: 'MAJOR', reason: `Prompt variable "${name}" became required`, path: '$.variables' });
+    }
+
+    return reasons;
+  },
+};
+
+const promptWordingRule: VersionRule = {
+  id: 'prompt-wording',
+  description: 'Template wording changes are PATCH',
+  artifactTypes: ['prompt'],
+  evaluate({ changes }) {
+    return changesUnder(changes, '$.template').map(change => ({
+      type: 'PATCH' as VersionType,
+      reason: 'Prompt template wording changed',
+      path: change.path,
+    }));
+  },
+};
+
+const toolParameterRule: VersionRule = {
+  id: 'tool-parameters',
+  description: 'Breaking tool contract changes are MAJOR, compatible contract changes are MINOR',
+  artifactTypes: ['tool'],
+  evaluate({ oldContent, newContent }) {
+    return checkToolCompatibility(oldContent, newContent).changes.map(change => ({
+      type: (change.breaking ? 'MAJOR' : 'MINOR') as VersionType,
+      reason: `${change.message} (${change.breaking ? 'breaking' : 'compatible'} ${change.direction} change)`,
+      path: change.path,
+    }));
+  },
+};
+
+const modelIdentityRule: VersionRule = {
+  id: 'model-identity',
+  description: 'Switching model provider or model ID is MINOR',
+  artifactTypes: ['model'],
+  evaluate({ changes }) {
+    return [...changesUnder(changes, '$.provider'), ...changesUnder(changes, '$.modelId')]
+      .map(change => ({
+        type: 'MINOR' as VersionType,
+        reason: 'Model provider or ID changed',
+        path: change.path,
+      }));
+  },
+};
+
+const dataStructureRule: VersionRule = {
+  id: 'data-structure',
+  description: 'Removed fields are MAJOR, added fields are MINOR',
+  artifactTypes: ['data'],
+  evaluate({ changes }) {
+    const reasons: Omit<VersionBumpReason, 'ruleId'>[] = [];
+
+    for (const change of changes) {
+      if (change.type === 'delete') {
+        reasons.push({ type: 'MAJOR', reason: 'Data field removed', path: change.path });
+      } else if (change.type === 'add') {
+        reasons.push({ type: 'MINOR', reason: 'Data field added', path: change.path });
+      } else if (change.type === 'modify' && typeof change.oldValue !== typeof change.newValue) {
+        reasons.push({ type: 'MAJOR', reason: 'Data field changed type', path: change.path });
+      }
+    }
+
+    return reasons;
+  },
+};
+
+/**
+ * Built-in rule set
+ */
+export const DEFAULT_VERSION_RULES: VersionRule[] = [
+  workflowNodeRule,
+  workflowEntryRule,
+  workflowEdgeRule,
+  promptVariableRule,
+  promptWordingRule,
+  toolParameterRule,
+  modelIdentityRule,
+  dataStructureRule,
+];
+
+/**
+ * Create a registry preloaded with the built-in rules
+ */
+export function createVersionRuleRegistry(extraRules: VersionRule[] = []): VersionRuleRegistry {
+  return new VersionRuleRegistry([...DEFAULT_VERSION_RULES, ...extraRules]);
+}
+
+const defaultRegistry = createVersionRuleRegistry();
+
+/**
+ * Detect the version bump type for a content change
+ */
+export function detectVersionType(
+  oldContent: any,
+  newContent: any,
+  artifactType: ArtifactType = 'data',
+  registry: VersionRuleRegistry = defaultRegistry
+): VersionType {
+  return registry.detect(artifactType, oldContent, newContent).type;
+}
+
+/**
+ * Detect and apply the version bump for a content change
+ */
+export function detectVersionBump(
+  artifactType: ArtifactType,
+  currentVersion: string,
+  oldContent: any,
+  newContent: any,
+  registry: VersionRuleRegistry = defaultRegistry
+): VersionBump {
+  const decision = registry.detect(artifactType, oldContent, newContent);
+  return bumpVersion(currentVersion, decision.type, decision.changes, decision.reasons);
+}
@@ -0,0 +1,282 @@
+/**
+ * Agent Pipeline Versioning - Workflow Graph Validation
+ *
+ * Checks the agent graph described by workflow content:
+ * - Nodes are agents; edges and node handoffs connect them
+ * - Entry points default to nodes without incoming edges
+ * - Reports duplicate node IDs, dangling edges, handoffs and tool
+ *   references, unknown entry/exit points, disallowed cycles and
+ *   unreachable agents
+ */
+
+import { formatPath } from './diff';
+
+/**
+ * A problem found in a workflow graph
+ */
+export interface WorkflowIssue {
+  code:
+    | 'duplicate-node'
+    | 'dangling-edge'
+    | 'dangling-handoff'
+    | 'missing-tool'
+    | 'unknown-entry'
+    | 'unknown-exit'
+    | 'no-entry'
+    | 'cycle'
+    | 'unreachable-node'
+    | 'dead-end';
+  severity: 'error' | 'warning';
+  message: string;
+  path?: string; // JSON path into the workflow content
+  nodeIds?: string[];
+}
+
+/**
+ * Result of validating a workflow graph
+ */
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings allowed)
+  issues: WorkflowIssue[];
+  entries: string[];
+  exits: string[];
+}
+
+/**
+ * Options for workflow validation
+ */
+export interface WorkflowValidationOptions {
+  tools?: string[]; // Known tool names; tool references are not checked if omitted
+  // Severity of structural findings that may be deliberate; errors by default
+  severities?: Partial<Record<'unreachable-node' | 'dead-end', WorkflowIssue['severity']>>;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  loop: boolean; // Loop-back edges may close cycles
+}
+
+/**
+ * Validate the agent graph of a workflow
+ */
+export function validateWorkflowGraph(
+  content: any,
+  options: WorkflowValidationOptions = {}
+): WorkflowValidationResult {
+  const issues: WorkflowIssue[] = [];
+  const nodes: any[] = Array.isArray(content?.nodes) ? content.nodes : [];
+  const rawEdges: any[] = Array.isArray(content?.edges) ? content.edges : [];
+  const nodeIds = new Set<string>();
+
+  // Duplicate node IDs
+  nodes.forEach((node, index) => {
+    if (nodeIds.has(node?.id)) {
+      issues.push({
+        code: 'duplicate-node',
+        severity: 'error',
+        message: `Duplicate node ID "${node.id}"`,
+        path: formatPath(['nodes', index, 'id']),
+        nodeIds: [node.id],
+      });
+    }
+    nodeIds.add(node?.id);
+  });
+
+  // Edges and handoffs, dropping the ones that point nowhere
+  const edges: GraphEdge[] = [];
+
+  rawEdges.forEach((edge, index) => {
+    const missing = [edge?.from, edge?.to].filter(id => !nodeIds.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        code: 'dangling-edge',
+        severity: 'error',
+        message: `Edge ${edge?.from} -> ${edge?.to} references unknown node(s) ${missing.map(id => `"${id}"`).join(', ')}`,
+        path: formatPath(['edges', index]),
+        nodeIds: missing,
+      });
+      return;
+    }
+    edges.push({ from: edge.from, to: edge.to, loop: edge.loop === true });
+  });
+
+  nodes.forEach((node, index) => {
+    const handoffs: any[] = Array.isArray(node?.handoffs) ? node.handoffs : [];
+    handoffs.forEach((target, h) => {
+      if (!nodeIds.has(target)) {
+        issues.push({
+          code: 'dangling-handoff',
+          severity: 'error',
+          message: `Node "${node.id}" hands off to unknown node "${target}"`,
+          path: formatPath(['nodes', index, 'handoffs', h]),
+          nodeIds: [node.id],
+        });
+        return;
+      }
+      edges.push({ from: node.id, to: target, loop: false });
+    });
+
+    const tools: any[] = Array.isArray(node?.tools) ? node.tools : [];
+    if (options.tools) {
+      tools.forEach((tool, t) => {
+        if (!options.tools!.includes(tool)) {
+          issues.push({
+            code: 'missing-tool',
+            severity: 'error',
+            message: `Node "${node.id}" uses unknown tool "${tool}"`,
+            path: formatPath(['nodes', index, 'tools', t]),
+            nodeIds: [node.id],
+          });
+        }
+      });
+    }
+  });
+
+  const outgoing = new Map<string, GraphEdge[]>(Array.from(nodeIds).map(id => [id, []]));
+  const incoming = new Set(edges.filter(e => !e.loop).map(e => e.to));
+  for (const edge of edges) {
+    outgoing.get(edge.from)!.push(edge);
+  }
+
+  // Entry points: declared, or every node without incoming edges
+  let entries: string[];
+  if (content?.entry !== undefined) {
+    entries = [content.entry];
+    if (!nodeIds.has(content.entry)) {
+      issues.push({
+        code: 'unknown-entry',
+        severity: 'error',
+        message: `Entry point "${content.entry}" is not a node`,
+        path: '$.entry',
+      });
+      entries = [];
+    }
+  } else {
+    entries = Array.from(nodeIds).filter(id => !incoming.has(id));
+    if (entries.length === 0 && nodeIds.size > 0) {
+      issues.push({
+        code: 'no-entry',
+        severity: 'error',
+        message: 'Workflow has no entry point; declare "entry" or add a node without incoming edges',
+      });
+    }
+  }
+
+  // Exit points: declared, or every node without outgoing edges
+  const leaves = Array.from(nodeIds).filter(id => outgoing.get(id)!.length === 0);
+  let exits = leaves;
+  if (Array.isArray(content?.exits)) {
+    exits = [];
+    content.exits.forEach((exit: string, index: number) => {
+      if (!nodeIds.has(exit)) {
+        issues.push({
+          code: 'unknown-exit',
+          severity: 'error',
+          message: `Exit point "${exit}" is not a node`,
+          path: formatPath(['exits', index]),
+        });
+      } else {
+        exits.push(exit);
+      }
+    });
+
+    for (const leaf of leaves.filter(id => !exits.includes(id))) {
+      issues.push({
+        code: 'dead-end',
+        severity: options.severities?.['dead-end'] ?? 'error',
+        message: `Node "${leaf}" has no outgoing edges but is not an exit point`,
+        nodeIds: [leaf],
+      });
+    }
+  }
+
+  // Cycles, unless the workflow allows them or they are closed by loop edges
+  if (content?.allowCycles !== true) {
+    for (const cycle of findCycles(nodeIds, outgoing)) {
+      issues.push({
+        code: 'cycle',
+        severity: 'error',
+        message: `Cycle ${[...cycle, cycle[0]].join(' -> ')}; mark the loop-back edge with "loop: true" if intended`,
+        nodeIds: cycle,
+      });
+    }
+  }
+
+  // Unreachable agents
+  const reachable = new Set<string>();
+  const queue = [...entries];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    queue.push(...outgoing.get(id)!.map(e => e.to));
+  }
+
+  for (const id of nodeIds) {
+    if (!reachable.has(id) && entries.length > 0) {
+      issues.push({
+        code: 'unreachable-node',
+        severity: options.severities?.['unreachable-node'] ?? 'error',
+        message: `Node "${id}" is not reachable from ${entries.map(e => `"${e}"`).join(', ')}`,
+        nodeIds: [id],
+      });
+    }
+  }
+
+  return {
+    valid: !issues.some(i => i.severity === 'error'),
+    issues,
+    entries,
+    exits,
+  };
+}
+
+/**
+ * Find cycles over non-loop edges, each reported once
+ */
+function findCycles(nodeIds: Set<string>, outgoing: Map<string, GraphEdge[]>): string[][] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const edge of outgoing.get(id)!) {
+      if (edge.loop) continue;
+
+      if (state.get(edge.to) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(edge.to));
+        const key = [...cycle].sort().join('\u0000');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(edge.to)) {
+        visit(edge.to);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of nodeIds) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Format the errors of a validation result as one readable message
+ */
+export function describeWorkflowErrors(result: WorkflowValidationResult): string {
+  return result.issues
+    .filter(i => i.severity === 'error')
+    .map(i => i.path ? `${i.path}: ${i.message}` : i.message)
+    .join('; ');
+}
@@ -0,0 +1,72 @@
+const {
+  Repository,
+  MemoryStorageAdapter,
+  STORAGE_COLLECTIONS,
+  createRepository,
+  createRepositoryConfig,
+} = require('../src');
+
+// Memory storage whose branch ref writes can be made to fail
+class FailingRefStorage extends MemoryStorageAdapter {
+  set(collection, key, value) {
+    if (this.failRefs && collection === STORAGE_COLLECTIONS.BRANCHES) {
+      throw new Error('disk full');
+    }
+    super.set(collection, key, value);
+  }
+}
+
+describe('multi-artifact commits', () => {
+  it('commits several artifacts under one signed commit', async () => {
+    const repo = createRepository('atomic');
+    const a = await repo.createArtifact({ type: 'data', name: 'a', content: { x: 1 }, createdBy: 'u' });
+    const b = await repo.createArtifact({ type: 'data', name: 'b', content: { y: 1 }, createdBy: 'u' });
+
+    const commit = await repo.commitArtifacts([a.id, b.id], 'bundle', 'u');
+    expect(commit.artifactIds).toEqual([a.id, b.id]);
+    expect(Object.keys(commit.tree).sort()).toEqual([a.id, b.id].sort());
+    expect(repo.verifyCommit(commit.id)).toBe(true);
+    expect(repo.getCommitHistory(b.id).map(c => c.id)).toEqual([commit.id]);
+  });
+
+  it('commits nothing when one artifact is missing', async () => {
+    const repo = createRepository('atomic');
+    const a = await repo.createArtifact({ type: 'data', name: 'a', content: { x: 1 }, createdBy: 'u' });
+
+    await expect(repo.commitArtifacts([a.id, 'missing'], 'bundle', 'u')).rejects.toThrow('"missing" not found');
+    expect(repo.resolveRef('main')).toBeUndefined();
+    expect(repo.getCommitHistory(a.id)).toEqual([]);
+  });
+
+  it('leaves the head unchanged when the ref update fails', async () => {
+    const storage = new FailingRefStorage();
+    const repo = new Repository(createRepositoryConfig('atomic'), 'key', storage);
+    const a = await repo.createArtifact({ type: 'data', name: 'a', content: { x: 1 }, createdBy: 'u' });
+    const first = await repo.commit(a.id, 'first', 'u');
+
+    await repo.updateArtifact(a.id, { content: { x: 2 } }, 'u');
+    storage.failRefs = true;
+    await expect(repo.commit(a.id, 'second', 'u')).rejects.toThrow('disk full');
+
+    // The commit was stored first and is left unreferenced
+    expect(storage.keys(STORAGE_COLLECTIONS.COMMITS)).toHaveLength(2);
+    expect(repo.resolveRef('main')).toBe(first.id);
+    expect(repo.getCommitHistory(a.id).map(c => c.id)).toEqual([first.id]);
+  });
+
+  it('only counts commits reachable from a branch or tag as history', async () => {
+    const repo = createRepository('atomic');
+    const a = await repo.createArtifact({ type: 'data', name: 'a', content: { x: 1 }, createdBy: 'u' });
+    const base = await repo.commit(a.id, 'base', 'u');
+
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+    await repo.updateArtifact(a.id, { content: { x: 2 } }, 'u');
+    const dropped = await repo.commit(a.id, 'dropped', 'u');
+    repo.checkout('main');
+
+    expect(repo.getCommitHistory(a.id).map(c => c.id)).toEqual([dropped.id, base.id]);
+    await repo.deleteBranch('feature/x', 'u');
+    expect(repo.getCommitHistory(a.id).map(c => c.id)).toEqual([base.id]);
+  });
+});
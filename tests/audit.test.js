@@ -0,0 +1,85 @@
+const { AuditLogService, MemoryStorageAdapter, STORAGE_COLLECTIONS, auditLogKey, verifyAuditSegment } = require('../src');
+
+const config = { name: 'audit', retentionYears: 7 };
+
+async function serviceWith(count) {
+  const storage = new MemoryStorageAdapter();
+  const service = new AuditLogService(config, storage);
+
+  for (let i = 0; i < count; i++) {
+    await service.log({ action: 'ARTIFACT_UPDATED', actor: 'u', target: `a${i}`, targetType: 'artifact' });
+  }
+
+  return { storage, service };
+}
+
+// Tampering happens at rest, so verify through a freshly opened log
+const reopen = storage => new AuditLogService(config, storage);
+
+describe('audit log', () => {
+  it('keeps an unbroken chain across reopening', async () => {
+    const { storage, service } = await serviceWith(3);
+    const lastHash = service.getLastHash();
+    const reopened = new AuditLogService(config, storage);
+    await reopened.log({ action: 'ARTIFACT_DELETED', actor: 'u', target: 'a0', targetType: 'artifact' });
+
+    expect(reopened.getLogCount()).toBe(4);
+    expect(reopened.getChain()[3].previousHash).toBe(lastHash);
+    expect(reopened.verifyIntegrity()).toEqual({ valid: true });
+  });
+
+  it('keeps its chain in step with appends without handing it out', async () => {
+    const { service } = await serviceWith(2);
+    const chain = service.getChain();
+    chain.pop();
+
+    await service.log({ action: 'ARTIFACT_DELETED', actor: 'u', target: 'a0', targetType: 'artifact' });
+
+    expect(service.getChain().map(log => log.target)).toEqual(['a0', 'a1', 'a0']);
+    expect(service.verifyIntegrity()).toEqual({ valid: true });
+  });
+
+  it('detects entries removed from the start of the log', async () => {
+    const { storage } = await serviceWith(3);
+    storage.delete(STORAGE_COLLECTIONS.AUDIT_LOG, auditLogKey(1));
+
+    expect(reopen(storage).verifyIntegrity()).toEqual({ valid: false, brokenAt: 0 });
+  });
+
+  it('detects entries removed from the end of the log', async () => {
+    const { storage } = await serviceWith(3);
+    storage.delete(STORAGE_COLLECTIONS.AUDIT_LOG, auditLogKey(3));
+
+    expect(reopen(storage).verifyIntegrity()).toEqual({ valid: false, brokenAt: 2 });
+  });
+
+  it('detects altered entries', async () => {
+    const { storage } = await serviceWith(3);
+    const entry = storage.get(STORAGE_COLLECTIONS.AUDIT_LOG, auditLogKey(2));
+    storage.set(STORAGE_COLLECTIONS.AUDIT_LOG, auditLogKey(2), { ...entry, actor: 'mallory' });
+
+    expect(reopen(storage).verifyIntegrity()).toEqual({ valid: false, brokenAt: 1 });
+  });
+
+  it('still verifies after archiving old entries', async () => {
+    const now = new Date();
+    jest.useFakeTimers({ now: new Date(now.getFullYear() - 10, 0, 1) });
+    try {
+      const { storage, service } = await serviceWith(2);
+      jest.setSystemTime(now);
+      await service.log({ action: 'ARTIFACT_CREATED', actor: 'u', target: 'b', targetType: 'artifact' });
+
+      expect(await service.archiveOldLogs()).toEqual({ archived: 2, retained: 1 });
+      expect(storage.keys(STORAGE_COLLECTIONS.AUDIT_LOG)).toEqual([auditLogKey(3)]);
+      expect(service.verifyIntegrity()).toEqual({ valid: true });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('verifies a bundle segment from its first link', async () => {
+    const { service } = await serviceWith(4);
+
+    expect(verifyAuditSegment(service.getChain().slice(2))).toEqual({ valid: true });
+  });
+});
@@ -0,0 +1,32 @@
+const { createRepository } = require('../src');
+
+describe('branch workspaces', () => {
+  it('keeps edits on one branch out of the others', async () => {
+    const repo = createRepository('workspaces');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    await repo.commit(artifact.id, 'init', 'u');
+
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+    await repo.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+
+    expect(repo.getArtifact(artifact.id).content).toEqual({ a: 2 });
+    expect(repo.getArtifact(artifact.id, 'main').content).toEqual({ a: 1 });
+
+    repo.checkout('main');
+    expect(repo.getArtifact(artifact.id).content).toEqual({ a: 1 });
+  });
+
+  it('derives a new branch from its base head and resets to its head', async () => {
+    const repo = createRepository('workspaces');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    await repo.commit(artifact.id, 'init', 'u');
+    await repo.updateArtifact(artifact.id, { content: { a: 3 } }, 'u');
+
+    await repo.createBranch('feature/y', 'u', 'main');
+    expect(repo.getArtifact(artifact.id, 'feature/y').content).toEqual({ a: 1 });
+
+    repo.resetWorkspace('main');
+    expect(repo.getArtifact(artifact.id, 'main').content).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,57 @@
+const { createRepository, decodeBundle, encodeBundle, signingKeyId } = require('../src');
+
+const KEY = 'shared-key';
+
+async function source() {
+  const repo = createRepository('source', KEY);
+  const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+  await repo.commit(artifact.id, 'init', 'u');
+  return { repo, artifact };
+}
+
+describe('repository bundles', () => {
+  it('carries history into a repository sharing the signing key', async () => {
+    const { repo, artifact } = await source();
+    const target = createRepository('target', KEY);
+
+    const result = await target.importBundle(await repo.exportBundle({ refs: ['main'] }), 'ops');
+
+    expect(result.branches.main).toBe(repo.resolveRef('main'));
+    expect(target.getArtifact(artifact.id).content).toEqual({ a: 1 });
+    expect(target.verifyCommit(repo.resolveRef('main'))).toBe(true);
+  });
+
+  it('rejects bundles from a repository with another signing key', async () => {
+    const { repo } = await source();
+    const target = createRepository('target', 'other-key');
+
+    await expect(target.importBundle(await repo.exportBundle(), 'ops'))
+      .rejects.toThrow(`signed with unknown signing key "${signingKeyId(KEY)}"`);
+    expect(target.listBranches().find(b => b.name === 'main').headCommit).toBeNull();
+  });
+
+  it('rejects a bundle altered in transit', async () => {
+    const { repo } = await source();
+    const bundle = decodeBundle(await repo.exportBundle());
+    bundle.createdBy = 'mallory';
+
+    await expect(createRepository('target', KEY).importBundle(encodeBundle(bundle), 'ops'))
+      .rejects.toThrow('bundle signature does not match');
+  });
+
+  it('sends only what the receiver lacks, on top of its prerequisites', async () => {
+    const { repo, artifact } = await source();
+    const target = createRepository('target', KEY);
+    await target.importBundle(await repo.exportBundle(), 'ops');
+    const base = repo.resolveRef('main');
+
+    await repo.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+    await repo.commit(artifact.id, 'update', 'u');
+    const incremental = await repo.exportBundle({ exclude: [base] });
+
+    expect(decodeBundle(incremental).prerequisites).toEqual([base]);
+    await expect(createRepository('empty', KEY).importBundle(incremental, 'ops'))
+      .rejects.toThrow(`prerequisite commit "${base}" is missing`);
+    expect((await target.importBundle(incremental, 'ops')).commits).toEqual([repo.resolveRef('main')]);
+  });
+});
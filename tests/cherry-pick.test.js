@@ -0,0 +1,58 @@
+const { createRepository } = require('../src');
+
+describe('cherry-pick and revert', () => {
+  async function setup() {
+    const repo = createRepository('replay');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1, b: 1 }, createdBy: 'u' });
+    await repo.commit(artifact.id, 'init', 'u');
+    await repo.createBranch('feature/x', 'u', 'main');
+    return { repo, id: artifact.id };
+  }
+
+  it('reapplies a commit from another branch', async () => {
+    const { repo, id } = await setup();
+    repo.checkout('feature/x');
+    await repo.updateArtifact(id, { content: { a: 2, b: 1 } }, 'u');
+    const picked = await repo.commit(id, 'bump a', 'u');
+
+    repo.checkout('main');
+    await repo.updateArtifact(id, { content: { a: 1, b: 2 } }, 'u');
+    await repo.commit(id, 'bump b', 'u');
+
+    const result = await repo.cherryPick(picked.id, 'main', 'u');
+    expect(result.status).toBe('applied');
+    expect(result.commit.message).toContain(`cherry picked from commit ${picked.id}`);
+    expect(repo.getArtifact(id, 'main').content).toEqual({ a: 2, b: 2 });
+
+    expect((await repo.cherryPick(picked.id, 'main', 'u')).status).toBe('empty');
+  });
+
+  it('undoes a commit with a new commit', async () => {
+    const { repo, id } = await setup();
+    await repo.updateArtifact(id, { content: { a: 2, b: 1 } }, 'u');
+    const change = await repo.commit(id, 'bump a', 'u');
+    await repo.updateArtifact(id, { content: { a: 2, b: 2 } }, 'u');
+    await repo.commit(id, 'bump b', 'u');
+
+    const result = await repo.revert(change.id, 'u');
+    expect(result.status).toBe('applied');
+    expect(result.commit.parentCommits).toHaveLength(1);
+    expect(repo.getArtifact(id).content).toEqual({ a: 1, b: 2 });
+  });
+
+  it('reports conflicts without committing', async () => {
+    const { repo, id } = await setup();
+    repo.checkout('feature/x');
+    await repo.updateArtifact(id, { content: { a: 2, b: 1 } }, 'u');
+    const picked = await repo.commit(id, 'a=2', 'u');
+
+    repo.checkout('main');
+    await repo.updateArtifact(id, { content: { a: 3, b: 1 } }, 'u');
+    const head = await repo.commit(id, 'a=3', 'u');
+
+    const result = await repo.cherryPick(picked.id, 'main', 'u');
+    expect(result.status).toBe('conflicts');
+    expect(result.conflicts[0].path).toBe('$.a');
+    expect(repo.resolveRef('main')).toBe(head.id);
+  });
+});
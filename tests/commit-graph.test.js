@@ -0,0 +1,70 @@
+const { CommitGraph, createRepository } = require('../src');
+
+// Builds a graph from { id: [parentIds] }; later ids get later timestamps
+function graphOf(parents) {
+  const commits = new Map(Object.entries(parents).map(([id, parentCommits], i) => [
+    id,
+    { id, parentCommits, timestamp: new Date(1000 * (i + 1)), artifactIds: [] },
+  ]));
+  return new CommitGraph(id => commits.get(id));
+}
+
+describe('CommitGraph', () => {
+  //   a - b - c - e   (main)
+  //        \     /
+  //         d --      (feature, merged into e)
+  const graph = graphOf({ a: [], b: ['a'], c: ['b'], d: ['b'], e: ['c', 'd'], f: ['d'] });
+
+  it('walks ancestors breadth-first', () => {
+    expect(graph.ancestors('e')).toEqual(['e', 'c', 'd', 'b', 'a']);
+    expect(graph.ancestors('e', false)).not.toContain('e');
+  });
+
+  it('checks ancestry', () => {
+    expect(graph.isAncestor('a', 'e')).toBe(true);
+    expect(graph.isAncestor('d', 'e')).toBe(true);
+    expect(graph.isAncestor('e', 'e')).toBe(true);
+    expect(graph.isAncestor('c', 'f')).toBe(false);
+  });
+
+  it('orders the log children first, newest first', () => {
+    expect(graph.log('e').map(c => c.id)).toEqual(['e', 'd', 'c', 'b', 'a']);
+    expect(graph.log('e', { limit: 2 }).map(c => c.id)).toEqual(['e', 'd']);
+  });
+
+  it('finds merge bases', () => {
+    expect(graph.mergeBase('c', 'd')).toBe('b');
+    expect(graph.mergeBase('e', 'f')).toBe('d');
+    expect(graph.mergeBase('e', 'a')).toBe('a');
+    expect(graph.mergeBase(null, 'a')).toBeNull();
+    expect(graphOf({ x: [], y: [] }).mergeBase('x', 'y')).toBeNull();
+  });
+
+  it('picks the most recent best base of a criss-cross merge', () => {
+    const crissCross = graphOf({ a: [], b: ['a'], c: ['a'], d: ['b', 'c'], e: ['c', 'b'] });
+    expect(crissCross.mergeBase('d', 'e')).toBe('c');
+  });
+
+  it('lists commits ahead and behind', () => {
+    const diff = graph.difference('f', 'e');
+    expect(diff.ahead.map(c => c.id)).toEqual(['f']);
+    expect(diff.behind.map(c => c.id)).toEqual(['e', 'c']);
+    expect(diff.mergeBase).toBe('d');
+  });
+});
+
+describe('Repository commit DAG', () => {
+  it('reports the merge base and difference between branches', async () => {
+    const repo = createRepository('graph');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    const base = await repo.commit(artifact.id, 'init', 'u');
+
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+    await repo.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+    const ahead = await repo.commit(artifact.id, 'change', 'u');
+
+    expect(repo.getMergeBase('feature/x', 'main')).toBe(base.id);
+    expect(repo.log('feature/x').map(c => c.id)).toEqual([ahead.id, base.id]);
+  });
+});
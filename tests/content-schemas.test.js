@@ -0,0 +1,65 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { z } = require('zod');
+const { Repository, createRepository } = require('../src');
+
+const StrictData = z.object({ id: z.string() });
+
+describe('content schemas', () => {
+  it('rejects invalid content with path-level errors', async () => {
+    const repo = createRepository('schemas');
+
+    await expect(repo.createArtifact({ type: 'model', name: 'm', content: { provider: 'x' }, createdBy: 'u' }))
+      .rejects.toThrow('Invalid model content (schema v1): $.modelId');
+  });
+
+  it('keeps validating old content against the schema it was written with', async () => {
+    const repo = createRepository('schemas');
+    const old = await repo.createArtifact({ type: 'data', name: 'old', content: { any: 1 }, createdBy: 'u' });
+
+    expect(repo.getContentSchemas().register('data', StrictData, 'strict-data')).toBe(2);
+    const strict = await repo.createArtifact({ type: 'data', name: 'new', content: { id: 'a' }, createdBy: 'u' });
+
+    expect(strict.schemaVersion).toBe(2);
+    expect(repo.validateArtifact(old).valid).toBe(true);
+    await expect(repo.updateArtifact(old.id, { content: { any: 2 } }, 'u')).rejects.toThrow('$.id');
+  });
+
+  describe('after reopening a repository', () => {
+    let directory;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'apv-schemas-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    async function reopened() {
+      const repo = await Repository.init(path.join(directory, 'repo'), 'schemas');
+      repo.getContentSchemas().register('data', StrictData, 'strict-data');
+      const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { id: 'a' }, createdBy: 'u' });
+      await repo.commit(artifact.id, 'init', 'u');
+
+      return { repo: await Repository.open(path.join(directory, 'repo')), id: artifact.id };
+    }
+
+    it('names the custom schema that is missing', async () => {
+      const { repo, id } = await reopened();
+
+      expect(() => repo.validateArtifact(repo.getArtifact(id))).toThrow('Content schema "strict-data" (v2 for "data") is not registered');
+      await expect(repo.createArtifact({ type: 'data', name: 'e', content: { id: 'b' }, createdBy: 'u' }))
+        .rejects.toThrow('"strict-data"');
+    });
+
+    it('validates again once the schema is registered under the same ID', async () => {
+      const { repo, id } = await reopened();
+
+      expect(() => repo.getContentSchemas().register('data', StrictData, 'other')).toThrow('is "strict-data", not "other"');
+      expect(repo.getContentSchemas().register('data', StrictData, 'strict-data')).toBe(2);
+      expect(repo.validateArtifact(repo.getArtifact(id)).valid).toBe(true);
+    });
+  });
+});
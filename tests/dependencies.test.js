@@ -0,0 +1,42 @@
+const { createRepository, parseDependencyReference } = require('../src');
+
+describe('artifact dependencies', () => {
+  it('parses name@range references', () => {
+    expect(parseDependencyReference('greeting@^1.0.0')).toEqual({ name: 'greeting', range: '^1.0.0' });
+    expect(parseDependencyReference('@team/prompt')).toEqual({ name: '@team/prompt', range: '*' });
+    expect(() => parseDependencyReference('greeting@not a range')).toThrow('bad version range');
+  });
+
+  it('resolves dependencies and dependents', async () => {
+    const repo = createRepository('deps');
+    const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content: { template: 'Hi' }, createdBy: 'u' });
+    const agent = await repo.createArtifact({
+      type: 'data', name: 'greeter', content: {}, createdBy: 'u', dependencies: ['greeting@<1.0.0', 'missing@1'],
+    });
+
+    const graph = repo.getDependencyGraph();
+    expect(graph.getDependencies(agent.id).map(a => a.id)).toEqual([prompt.id]);
+    expect(graph.getDependents(prompt.id).map(a => a.id)).toEqual([agent.id]);
+    expect(graph.getUnresolved()).toEqual([expect.objectContaining({ status: 'missing', from: agent.id })]);
+  });
+
+  it('flags dependents a proposed version would break', async () => {
+    const repo = createRepository('deps');
+    const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content: { template: 'Hi' }, createdBy: 'u' });
+    const agent = await repo.createArtifact({
+      type: 'data', name: 'greeter', content: {}, createdBy: 'u', dependencies: ['greeting@<1.0.0'],
+    });
+
+    const impact = repo.analyzeImpact(prompt.id, { version: '1.0.0' });
+    expect(impact.breaking.map(d => d.artifactId)).toEqual([agent.id]);
+    expect(repo.analyzeImpact(prompt.id, { version: '0.1.0' }).breaking).toEqual([]);
+  });
+
+  it('refuses to commit artifacts in a dependency cycle', async () => {
+    const repo = createRepository('deps');
+    const a = await repo.createArtifact({ type: 'data', name: 'a', content: {}, createdBy: 'u', dependencies: ['b'] });
+    await repo.createArtifact({ type: 'data', name: 'b', content: {}, createdBy: 'u', dependencies: ['a'] });
+
+    await expect(repo.commit(a.id, 'cycle', 'u')).rejects.toThrow('dependency cycle');
+  });
+});
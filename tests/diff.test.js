@@ -0,0 +1,49 @@
+const { diffContent, applyChanges, invertChanges, createRepository } = require('../src');
+
+const strip = changes => changes.map(({ type, path, fromPath, oldValue, newValue }) =>
+  ({ type, path, ...(fromPath ? { fromPath } : {}), oldValue, newValue }));
+
+describe('diffContent', () => {
+  it('reports nothing for equal content', () => {
+    expect(diffContent({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+
+  it('reports adds, modifies and deletes by JSON path', () => {
+    const changes = diffContent({ a: 1, b: { c: 2 } }, { a: 2, b: {}, d: true });
+
+    expect(strip(changes)).toEqual([
+      { type: 'modify', path: '$.a', oldValue: 1, newValue: 2 },
+      { type: 'delete', path: '$.b.c', oldValue: 2, newValue: undefined },
+      { type: 'add', path: '$.d', oldValue: undefined, newValue: true },
+    ]);
+  });
+
+  it('matches array elements by id and reports moves', () => {
+    const before = { nodes: [{ id: 'a', x: 1 }, { id: 'b' }] };
+    const after = { nodes: [{ id: 'b' }, { id: 'a', x: 1 }] };
+
+    expect(diffContent(before, after).map(c => c.type)).toEqual(['move', 'move']);
+  });
+
+  it('applies and inverts change sets', () => {
+    const before = { a: 1, list: [1, 2, 3] };
+    const after = { a: 2, list: [1, 3], extra: 'x' };
+    const changes = diffContent(before, after);
+
+    expect(applyChanges(before, changes)).toEqual(after);
+    expect(applyChanges(after, invertChanges(changes))).toEqual(before);
+  });
+});
+
+describe('Commit.changes', () => {
+  it('is populated from the diff against the previous commit', async () => {
+    const repo = createRepository('diff');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    await repo.commit(artifact.id, 'init', 'u');
+    await repo.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+    const commit = await repo.commit(artifact.id, 'change', 'u');
+
+    expect(strip(commit.changes)).toEqual([{ type: 'modify', path: '$.a', oldValue: 1, newValue: 2 }]);
+    expect(commit.changes[0].artifactId).toBe(artifact.id);
+  });
+});
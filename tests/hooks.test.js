@@ -0,0 +1,135 @@
+const { createRepository } = require('../src');
+
+const KEY = 'shared-key';
+
+async function setup() {
+  const repo = createRepository('hooks', KEY);
+  const a = await repo.createArtifact({ type: 'data', name: 'a', content: { v: 1 }, createdBy: 'u' });
+  const b = await repo.createArtifact({ type: 'data', name: 'b', content: { v: 1 }, createdBy: 'u' });
+  await repo.commitArtifacts([a.id, b.id], 'init', 'u');
+  return { repo, a, b };
+}
+
+async function edit(repo, artifact, v, message) {
+  await repo.updateArtifact(artifact.id, { content: { v } }, 'u');
+  return repo.commit(artifact.id, message, 'u');
+}
+
+const veto = (operation, when = () => true) => ({
+  id: `no-${operation}`,
+  operation,
+  before: context => (when(context) ? { allow: false, reason: 'not today' } : undefined),
+});
+
+describe('lifecycle hooks', () => {
+  it('records vetoes and post-hook failures in the audit log', async () => {
+    const { repo, a } = await setup();
+    repo.getHooks().register(veto('commit'));
+
+    await repo.updateArtifact(a.id, { content: { v: 2 } }, 'u');
+    await expect(repo.commit(a.id, 'x', 'u')).rejects.toThrow('commit rejected by hook "no-commit": not today');
+    expect(repo.getAuditLogs({ action: 'OPERATION_REJECTED' })[0].details).toMatchObject({ operation: 'commit', hookId: 'no-commit' });
+
+    repo.getHooks().unregister('no-commit');
+    repo.getHooks().register({ id: 'broken', operation: 'commit', after: () => { throw new Error('boom'); } });
+    await repo.commit(a.id, 'x', 'u');
+    expect(repo.getAuditLogs({ action: 'HOOK_FAILED' })[0].details).toMatchObject({ hookId: 'broken', error: 'boom' });
+  });
+
+  it('runs commit hooks on merge, cherry-pick and revert commits', async () => {
+    const { repo, a, b } = await setup();
+    await repo.createBranch('feature', 'u', 'main');
+    repo.checkout('feature');
+    const picked = await edit(repo, a, 2, 'feature edit');
+    repo.checkout('main');
+    const reverted = await edit(repo, b, 2, 'main edit');
+
+    const seen = [];
+    repo.getHooks().register({ id: 'spy', operation: 'commit', after: commit => seen.push(commit.message) });
+    repo.getHooks().register(veto('commit', context => context.branch === 'main'));
+
+    await expect(repo.merge('feature', 'main', 'u')).rejects.toThrow('rejected by hook');
+    await expect(repo.cherryPick(picked.id, 'main', 'u')).rejects.toThrow('rejected by hook');
+    await expect(repo.revert(reverted.id, 'u', 'main')).rejects.toThrow('rejected by hook');
+
+    repo.getHooks().unregister('no-commit');
+    await repo.merge('feature', 'main', 'u');
+    expect(seen).toEqual(["Merge branch 'feature' into main"]);
+  });
+
+  it('runs merge hooks on every merge, fast-forward or not', async () => {
+    const { repo, a } = await setup();
+    await repo.createBranch('feature', 'u', 'main');
+    repo.checkout('feature');
+    await edit(repo, a, 2, 'feature edit');
+    repo.checkout('main');
+
+    const results = [];
+    repo.getHooks().register(veto('merge', context => context.mergedBy === 'mallory'));
+    repo.getHooks().register({ id: 'spy', operation: 'merge', after: result => results.push(result.status) });
+
+    await expect(repo.merge('feature', 'main', 'mallory')).rejects.toThrow('merge rejected by hook "no-merge"');
+    expect((await repo.merge('feature', 'main', 'u')).status).toBe('fast-forward');
+    expect(results).toEqual(['fast-forward']);
+  });
+
+  it('runs merge hooks when completing a conflicted merge', async () => {
+    const { repo, a } = await setup();
+    await repo.createBranch('feature', 'u', 'main');
+    repo.checkout('feature');
+    await edit(repo, a, 2, 'theirs');
+    repo.checkout('main');
+    await edit(repo, a, 3, 'ours');
+
+    const { mergeId, conflicts } = await repo.merge('feature', 'main', 'u');
+    await repo.resolveConflict(mergeId, conflicts[0].id, 'ours', 'u');
+    repo.getHooks().register(veto('merge'));
+
+    await expect(repo.completeMerge(mergeId, 'u')).rejects.toThrow('merge rejected by hook');
+    expect(repo.getPendingMerges()).toHaveLength(1);
+  });
+
+  it('nests the merge hooks inside the pull request hooks, running each once', async () => {
+    const { repo, a } = await setup();
+    await repo.createBranch('feature', 'u', 'main');
+    repo.checkout('feature');
+    await edit(repo, a, 2, 'feature edit');
+    repo.checkout('main');
+
+    const calls = [];
+    for (const operation of ['merge', 'mergePullRequest']) {
+      repo.getHooks().register({
+        id: `spy-${operation}`,
+        operation,
+        before: () => { calls.push(`before ${operation}`); },
+        after: () => { calls.push(`after ${operation}`); throw new Error('boom'); },
+      });
+    }
+
+    const pr = await repo.createPullRequest({ title: 'Edit', description: '', sourceBranch: 'feature', targetBranch: 'main', author: 'u' });
+    await repo.approvePullRequest(pr.id, 'reviewer');
+    await repo.mergePullRequest(pr.id, 'u');
+
+    expect(calls).toEqual(['before mergePullRequest', 'before merge', 'after merge', 'after mergePullRequest']);
+    expect(repo.getAuditLogs({ action: 'HOOK_FAILED' }).map(log => log.details.hookId).sort())
+      .toEqual(['spy-merge', 'spy-mergePullRequest']);
+  });
+
+  it('runs commit hooks on imported commits', async () => {
+    const { repo, a } = await setup();
+    const target = createRepository('target', KEY);
+    await target.importBundle(await repo.exportBundle(), 'ops');
+    await edit(repo, a, 2, 'imported edit');
+
+    const seen = [];
+    target.getHooks().register({ id: 'spy', operation: 'commit', after: commit => seen.push(commit.message) });
+    target.getHooks().register(veto('commit', context => context.author === 'mallory'));
+    await target.importBundle(await repo.exportBundle(), 'ops');
+    expect(seen).toEqual(['imported edit']);
+
+    await repo.updateArtifact(a.id, { content: { v: 3 } }, 'u');
+    await repo.commit(a.id, 'forged', 'mallory');
+    await expect(target.importBundle(await repo.exportBundle(), 'ops')).rejects.toThrow('rejected by hook');
+    expect(target.resolveRef('main')).not.toBe(repo.resolveRef('main'));
+  });
+});
@@ -0,0 +1,41 @@
+const { createRepository } = require('../src');
+
+const workflowContent = { nodes: [{ id: 'start', agent: 'greeter' }], edges: [] };
+
+async function setup() {
+  const repo = createRepository('locks');
+  const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content: { template: 'Hi' }, createdBy: 'u' });
+  const agent = await repo.createArtifact({
+    type: 'data', name: 'greeter', content: {}, createdBy: 'u', dependencies: ['greeting@<1.0.0'],
+  });
+  const workflow = await repo.createArtifact({
+    type: 'workflow', name: 'flow', content: workflowContent, createdBy: 'u', dependencies: ['greeter'],
+  });
+  const commit = await repo.commitArtifacts([prompt.id, agent.id, workflow.id], 'release', 'u');
+  return { repo, prompt, agent, workflow, commit };
+}
+
+describe('workflow lockfiles', () => {
+  it('pins every transitive dependency of a committed workflow', async () => {
+    const { repo, prompt, agent, workflow, commit } = await setup();
+    const lockfile = repo.getLockfile(commit.id, workflow.id);
+
+    expect(Object.keys(lockfile.artifacts).sort()).toEqual([prompt.id, agent.id, workflow.id].sort());
+    expect(lockfile.workflow).toEqual({ artifactId: workflow.id, name: 'flow', version: workflow.version });
+    expect(lockfile.artifacts[prompt.id].version).toBe(prompt.version);
+  });
+
+  it('verifies a pinned environment against the branch', async () => {
+    const { repo, prompt, workflow } = await setup();
+    const environment = await repo.pinEnvironment(workflow.version, 'u', undefined, { workflowId: workflow.id });
+    expect(environment.dependencies).toEqual({ greeting: prompt.version, greeter: expect.any(String) });
+    expect(repo.verifyEnvironment(environment.id).valid).toBe(true);
+
+    await repo.updateArtifact(prompt.id, { content: { template: 'Hello' } }, 'u');
+    await repo.commit(prompt.id, 'reword', 'u');
+
+    const verification = repo.verifyEnvironment(environment.id);
+    expect(verification.valid).toBe(false);
+    expect(verification.mismatches).toEqual([expect.objectContaining({ artifactId: prompt.id, reason: 'version-changed' })]);
+  });
+});
@@ -0,0 +1,97 @@
+const { createRepository, mergeContent } = require('../src');
+
+async function branched(content) {
+  const repo = createRepository('merge');
+  const artifact = await repo.createArtifact({ type: 'data', name: 'd', content, createdBy: 'u' });
+  await repo.commit(artifact.id, 'init', 'u');
+  await repo.createBranch('feature/x', 'u', 'main');
+  return { repo, id: artifact.id };
+}
+
+async function edit(repo, branch, id, change) {
+  repo.checkout(branch);
+  await change();
+  return repo.commit(id, `edit on ${branch}`, 'u');
+}
+
+describe('mergeContent', () => {
+  it('merges edits to different paths and reports overlapping ones', () => {
+    const clean = mergeContent({ a: 1, b: 1 }, { a: 2, b: 1 }, { a: 1, b: 2 });
+    expect(clean).toEqual({ merged: { a: 2, b: 2 }, conflicts: [] });
+
+    const conflicting = mergeContent({ a: 1 }, { a: 2 }, { a: 3 });
+    expect(conflicting.conflicts).toEqual([{ path: '$.a', base: 1, ours: 2, theirs: 3 }]);
+  });
+});
+
+describe('Repository.merge', () => {
+  it('fast-forwards and three-way merges branches', async () => {
+    const { repo, id } = await branched({ a: 1, b: 1 });
+
+    await edit(repo, 'feature/x', id, () => repo.updateArtifact(id, { content: { a: 2, b: 1 } }, 'u'));
+    expect((await repo.merge('feature/x', 'main', 'u')).status).toBe('fast-forward');
+
+    await edit(repo, 'feature/x', id, () => repo.updateArtifact(id, { content: { a: 3, b: 1 } }, 'u'));
+    await edit(repo, 'main', id, () => repo.updateArtifact(id, { content: { a: 2, b: 2 } }, 'u'));
+
+    const result = await repo.merge('feature/x', 'main', 'u');
+    expect(result.status).toBe('merged');
+    expect(result.commit.parentCommits).toHaveLength(2);
+    expect(repo.getArtifact(id, 'main').content).toEqual({ a: 3, b: 2 });
+  });
+
+  it('keeps conflicts pending until they are resolved', async () => {
+    const { repo, id } = await branched({ a: 1 });
+    await edit(repo, 'feature/x', id, () => repo.updateArtifact(id, { content: { a: 2 } }, 'u'));
+    await edit(repo, 'main', id, () => repo.updateArtifact(id, { content: { a: 3 } }, 'u'));
+
+    const result = await repo.merge('feature/x', 'main', 'u');
+    expect(result.status).toBe('conflicts');
+    await expect(repo.completeMerge(result.mergeId, 'u')).rejects.toThrow('unresolved');
+
+    await repo.resolveConflict(result.mergeId, result.conflicts[0].id, 'theirs', 'u');
+    await repo.completeMerge(result.mergeId, 'u');
+    expect(repo.getArtifact(id, 'main').content).toEqual({ a: 2 });
+  });
+
+  it('reports a delete on one side and a modify on the other as a conflict', async () => {
+    const { repo, id } = await branched({ a: 1 });
+    await edit(repo, 'feature/x', id, () => repo.deleteArtifact(id, 'u'));
+    await edit(repo, 'main', id, () => repo.updateArtifact(id, { content: { a: 2 } }, 'u'));
+
+    const result = await repo.merge('feature/x', 'main', 'u');
+    expect(result.status).toBe('conflicts');
+    expect(result.conflicts).toEqual([expect.objectContaining({
+      artifactId: id, path: '$', deleted: 'theirs', base: { a: 1 }, ours: { a: 2 },
+    })]);
+
+    await repo.resolveConflict(result.mergeId, result.conflicts[0].id, 'theirs', 'u');
+    await repo.completeMerge(result.mergeId, 'u');
+    expect(repo.getArtifact(id, 'main').deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('can keep the edited side of a delete/modify conflict', async () => {
+    const { repo, id } = await branched({ a: 1 });
+    await edit(repo, 'feature/x', id, () => repo.updateArtifact(id, { content: { a: 2 } }, 'u'));
+    await edit(repo, 'main', id, () => repo.deleteArtifact(id, 'u'));
+
+    const result = await repo.merge('feature/x', 'main', 'u');
+    expect(result.conflicts[0].deleted).toBe('ours');
+
+    await repo.resolveConflict(result.mergeId, result.conflicts[0].id, 'theirs', 'u');
+    await repo.completeMerge(result.mergeId, 'u');
+    const merged = repo.getArtifact(id, 'main');
+    expect(merged.deletedAt).toBeUndefined();
+    expect(merged.content).toEqual({ a: 2 });
+  });
+
+  it('lets a deletion win over an edit that left the content alone', async () => {
+    const { repo, id } = await branched({ a: 1 });
+    await edit(repo, 'feature/x', id, () => repo.deleteArtifact(id, 'u'));
+    await edit(repo, 'main', id, () => repo.updateArtifact(id, { description: 'renamed' }, 'u'));
+
+    const result = await repo.merge('feature/x', 'main', 'u');
+    expect(result.status).toBe('merged');
+    expect(repo.getArtifact(id, 'main').deletedAt).toBeInstanceOf(Date);
+  });
+});
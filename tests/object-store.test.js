@@ -0,0 +1,34 @@
+const { ObjectStore, createRepository } = require('../src');
+
+describe('ObjectStore', () => {
+  it('stores identical content once under its hash', () => {
+    const store = new ObjectStore();
+    const a = store.put({ b: 1 });
+    const b = store.put({ b: 1 });
+
+    expect(a).toBe(b);
+    expect(store.size()).toBe(1);
+    expect(store.get(a)).toEqual({ b: 1 });
+    expect(store.verify(a)).toBe(true);
+  });
+
+  it('keeps a string and an object with the same JSON text apart', () => {
+    const store = new ObjectStore();
+    expect(store.put('{"a":1}')).not.toBe(store.put({ a: 1 }));
+  });
+});
+
+describe('Repository commits', () => {
+  it('reads back the exact content of every committed version', async () => {
+    const repo = createRepository('objects');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { v: 1 }, createdBy: 'u' });
+    const first = await repo.commit(artifact.id, 'v1', 'u');
+
+    await repo.updateArtifact(artifact.id, { content: { v: 2 } }, 'u');
+    const second = await repo.commit(artifact.id, 'v2', 'u');
+
+    expect(repo.getCommitContent(first.id)).toEqual({ v: 1 });
+    expect(repo.getCommitContent(second.id)).toEqual({ v: 2 });
+    expect(repo.getObjectStore().verify(second.contentHash)).toBe(true);
+  });
+});
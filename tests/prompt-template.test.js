@@ -0,0 +1,42 @@
+const { extractVariables, renderPrompt, diffPromptVariables, createRepository } = require('../src');
+
+describe('prompt templates', () => {
+  const content = {
+    template: 'Hello {{ name }}, welcome to {{place}}. {{name}}!',
+    variables: [{ name: 'name' }, { name: 'place', default: 'the clinic' }],
+  };
+
+  it('extracts placeholders in order of first use', () => {
+    expect(extractVariables(content.template)).toEqual(['name', 'place']);
+  });
+
+  it('renders with defaults and rejects missing or unknown values', () => {
+    expect(renderPrompt(content, { name: 'Ada' })).toBe('Hello Ada, welcome to the clinic. Ada!');
+    expect(() => renderPrompt(content, {})).toThrow('Missing value(s) for prompt variable(s) "name"');
+    expect(() => renderPrompt(content, { name: 'Ada', mood: 'x' })).toThrow('Unknown prompt variable(s) "mood"');
+    expect(() => renderPrompt({ template: '{{a}}', variables: [{ name: 'b' }] }, { b: 1 }))
+      .toThrow('undeclared variable(s) "a"');
+  });
+
+  it('diffs variables between versions', () => {
+    const next = { template: '{{name}} {{topic}}', variables: [{ name: 'name' }, { name: 'topic', required: false }] };
+
+    expect(diffPromptVariables(content, next)).toEqual({
+      added: [{ name: 'topic', required: false }],
+      removed: [{ name: 'place', required: false, default: 'the clinic' }],
+      becameRequired: [],
+      becameOptional: [],
+    });
+  });
+
+  it('renders prompt artifacts at historical versions', async () => {
+    const repo = createRepository('prompts');
+    const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content, createdBy: 'u' });
+    const first = await repo.commit(prompt.id, 'init', 'u');
+    await repo.updateArtifact(prompt.id, { content: { template: 'Hi {{name}}', variables: [{ name: 'name' }] } }, 'u');
+
+    expect(repo.renderPrompt(prompt.id, { name: 'Ada' })).toBe('Hi Ada');
+    expect(repo.renderPrompt(prompt.id, { name: 'Ada' }, { commitId: first.id })).toBe('Hello Ada, welcome to the clinic. Ada!');
+    expect(repo.diffPromptVariables(prompt.id, { commitId: first.id }).removed.map(v => v.name)).toEqual(['place']);
+  });
+});
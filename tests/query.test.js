@@ -0,0 +1,58 @@
+const { queryArtifacts, matchesTags, createRepository } = require('../src');
+
+const artifact = (name, fields = {}) => ({
+  id: name,
+  type: 'prompt',
+  name,
+  version: '1.0.0',
+  content: {},
+  tags: [],
+  metadata: {},
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...fields,
+});
+
+const artifacts = [
+  artifact('triage', { tags: ['clinical', 'prod'], version: '2.1.0', metadata: { team: { name: 'care' } }, content: { template: 'Assess symptoms' } }),
+  artifact('billing', { tags: ['finance', 'prod'], version: '1.4.0', metadata: { team: { name: 'ops' } }, createdAt: new Date('2024-06-01') }),
+  artifact('draft', { tags: ['clinical'], version: '3.0.0-rc.1', type: 'workflow' }),
+  artifact('old', { tags: ['clinical', 'prod'], deletedAt: new Date('2024-02-01') }),
+];
+
+const names = result => result.items.map(a => a.name);
+
+describe('artifact queries', () => {
+  it('evaluates tag expressions', () => {
+    expect(matchesTags(['a', 'b'], { and: ['a', { not: 'c' }] })).toBe(true);
+    expect(matchesTags(['a'], { or: ['b', 'c'] })).toBe(false);
+    expect(names(queryArtifacts(artifacts, { tags: { and: ['clinical', 'prod'] } }))).toEqual(['triage']);
+  });
+
+  it('matches metadata, versions, dates and text', () => {
+    expect(names(queryArtifacts(artifacts, { metadata: { 'team.name': { in: ['ops'] } } }))).toEqual(['billing']);
+    expect(names(queryArtifacts(artifacts, { version: '^2.0.0' }))).toEqual(['triage']);
+    expect(names(queryArtifacts(artifacts, { createdAt: { from: new Date('2024-03-01') } }))).toEqual(['billing']);
+    expect(names(queryArtifacts(artifacts, { text: 'assess symptoms' }))).toEqual(['triage']);
+    expect(names(queryArtifacts(artifacts, { type: 'workflow' }))).toEqual(['draft']);
+  });
+
+  it('hides tombstones unless asked', () => {
+    expect(names(queryArtifacts(artifacts, { tags: 'prod' }))).not.toContain('old');
+    expect(names(queryArtifacts(artifacts, { tags: 'prod', includeDeleted: true }))).toContain('old');
+  });
+
+  it('sorts and pages', () => {
+    const page = queryArtifacts(artifacts, { sort: { field: 'version', order: 'desc' }, offset: 1, limit: 1 });
+    expect(page).toMatchObject({ total: 3, offset: 1, limit: 1, hasMore: true });
+    expect(names(page)).toEqual(['triage']);
+  });
+
+  it('queries the artifacts of a branch', async () => {
+    const repo = createRepository('query');
+    await repo.createArtifact({ type: 'data', name: 'a', content: {}, tags: ['x'], createdBy: 'u' });
+    await repo.createArtifact({ type: 'data', name: 'b', content: {}, tags: ['y'], createdBy: 'u' });
+
+    expect(names(repo.queryArtifacts({ tags: 'y' }))).toEqual(['b']);
+  });
+});
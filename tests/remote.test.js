@@ -0,0 +1,79 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Repository, RemoteServer, LoopbackTransport, SocketTransport, createRepository } = require('../src');
+
+const KEY = 'shared-key';
+
+async function origin() {
+  const repo = createRepository('origin', KEY);
+  const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+  await repo.commit(artifact.id, 'init', 'u');
+  await repo.createBranch('feature', 'u', 'main');
+  return { repo, artifact };
+}
+
+async function diverge(server, clone, artifact) {
+  server.checkout('feature');
+  await server.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+  await server.commit(artifact.id, 'theirs', 'u');
+
+  clone.checkout('feature');
+  await clone.updateArtifact(artifact.id, { content: { a: 3 } }, 'u');
+  await clone.commit(artifact.id, 'ours', 'u');
+}
+
+describe('remotes', () => {
+  it('clones and pushes fast-forwards, recording the pusher only as a claim', async () => {
+    const { repo, artifact } = await origin();
+    const transport = new LoopbackTransport(new RemoteServer(repo, { actor: 'origin-server' }));
+    const clone = await Repository.clone(transport, { signingKey: KEY });
+
+    expect(clone.resolveRef('main')).toBe(repo.resolveRef('main'));
+
+    await clone.updateArtifact(artifact.id, { content: { a: 2 } }, 'u');
+    await clone.commit(artifact.id, 'update', 'u');
+    const result = await clone.push(transport, { pushedBy: 'alice' });
+
+    expect(result.branches.main).toBe(clone.resolveRef('main'));
+    expect(repo.resolveRef('main')).toBe(clone.resolveRef('main'));
+    expect(clone.getRemoteRefs('origin')).toMatchObject({ 'origin/main': clone.resolveRef('main') });
+
+    const [entry] = repo.getAuditLogs({ action: 'BUNDLE_IMPORTED' });
+    expect(entry).toMatchObject({ actor: 'origin-server', details: { claimedBy: 'alice' } });
+  });
+
+  it('rejects diverged pushes and refuses force pushes unless the server allows them', async () => {
+    const { repo, artifact } = await origin();
+    const transport = new LoopbackTransport(new RemoteServer(repo));
+    const clone = await Repository.clone(transport, { signingKey: KEY });
+    await diverge(repo, clone, artifact);
+    const theirs = repo.resolveRef('feature');
+
+    await expect(clone.push(transport, { pushedBy: 'u' })).rejects.toThrow('Remote rejected push');
+    await expect(clone.push(transport, { pushedBy: 'u', force: true }))
+      .rejects.toThrow('Force push is disabled on this remote');
+    expect(repo.resolveRef('feature')).toBe(theirs);
+
+    const permissive = new LoopbackTransport(new RemoteServer(repo, { allowForcePush: true }));
+    await clone.push(permissive, { pushedBy: 'u', force: true });
+    expect(repo.resolveRef('feature')).toBe(clone.resolveRef('feature'));
+  });
+
+  it('fetches over a local socket', async () => {
+    if (process.platform === 'win32') return;
+
+    const { repo } = await origin();
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-'));
+    const server = new RemoteServer(repo);
+    await server.listen(path.join(directory, 'origin.sock'));
+
+    try {
+      const clone = await Repository.clone(new SocketTransport(path.join(directory, 'origin.sock')), { signingKey: KEY });
+      expect(clone.resolveRef('feature')).toBe(repo.resolveRef('feature'));
+    } finally {
+      await server.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
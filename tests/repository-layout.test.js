@@ -0,0 +1,99 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Repository, RepositoryLayoutAdapter, STORAGE_COLLECTIONS, createRepository } = require('../src');
+
+describe('on-disk repository layout', () => {
+  let directory;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'layout-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function initWithCommit() {
+    const repo = await Repository.init(directory, 'layout');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    await repo.commit(artifact.id, 'init', 'u');
+    return { repo, artifact };
+  }
+
+  it('lays out objects, commits, refs and the audit journal like a .git directory', async () => {
+    await initWithCommit();
+    await (await Repository.open(directory)).createBranch('feature/login', 'u', 'main');
+
+    expect(fs.existsSync(path.join(directory, 'config.json'))).toBe(true);
+    expect(fs.readdirSync(path.join(directory, 'objects')).every(dir => dir.length === 2)).toBe(true);
+    expect(fs.readdirSync(path.join(directory, 'commits')).length).toBeGreaterThan(0);
+    expect(fs.existsSync(path.join(directory, 'refs', 'heads', 'main'))).toBe(true);
+    expect(fs.existsSync(path.join(directory, 'refs', 'heads', 'feature', 'login'))).toBe(true);
+    expect(fs.readFileSync(path.join(directory, 'audit.journal'), 'utf8').trim().split('\n').length).toBeGreaterThan(1);
+  });
+
+  it('reopens with history, branches and an intact audit chain', async () => {
+    const { repo, artifact } = await initWithCommit();
+    const reopened = await Repository.open(directory);
+
+    expect(reopened.getArtifact(artifact.id).content).toEqual({ a: 1 });
+    expect(reopened.resolveRef('main')).toBe(repo.resolveRef('main'));
+    expect(reopened.verifyAuditIntegrity()).toEqual({ valid: true });
+  });
+
+  it('refuses to init over a repository or open a missing one', async () => {
+    await Repository.init(directory, 'layout');
+
+    await expect(Repository.init(directory, 'again')).rejects.toThrow('Repository already exists');
+    await expect(Repository.open(path.join(directory, 'missing'))).rejects.toThrow('No repository found');
+  });
+
+  it('drops an audit journal line torn by a crash', async () => {
+    const { repo } = await initWithCommit();
+    const count = repo.getAuditLogs().length;
+    fs.appendFileSync(path.join(directory, 'audit.journal'), '{"key":"0000000');
+
+    const reopened = await Repository.open(directory);
+
+    expect(reopened.getAuditLogs()).toHaveLength(count);
+    expect(reopened.verifyAuditIntegrity()).toEqual({ valid: true });
+  });
+
+  it('never rewrites a stored object', async () => {
+    await initWithCommit();
+    const layout = RepositoryLayoutAdapter.open(directory);
+    const [key] = layout.keys(STORAGE_COLLECTIONS.COMMITS);
+
+    expect(() => layout.set(STORAGE_COLLECTIONS.COMMITS, key, { forged: true })).toThrow('cannot be rewritten');
+  });
+
+  describe.each([
+    ['in memory', () => createRepository('refs')],
+    ['on disk', () => Repository.init(directory, 'refs')],
+  ])('nested ref names %s', (_, open) => {
+    it('rejects a branch nested in another, either way round', async () => {
+      const repo = await open();
+      await repo.createBranch('feature/a', 'u', 'main');
+
+      await expect(repo.createBranch('feature/a/b', 'u', 'main'))
+        .rejects.toThrow('Branch "feature/a/b" conflicts with branch "feature/a"');
+      await expect(repo.createBranch('feature', 'u', 'main'))
+        .rejects.toThrow('Branch "feature" conflicts with branch "feature/a"');
+      await repo.createBranch('feature/ab', 'u', 'main');
+      expect(repo.resolveRef('feature/ab')).toBe(repo.resolveRef('main'));
+    });
+
+    it('rejects a tag nested in another, either way round', async () => {
+      const repo = await open();
+      const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: {}, createdBy: 'u' });
+      const commit = await repo.commit(artifact.id, 'init', 'u');
+      await repo.createTag('release/1', { commitId: commit.id, createdBy: 'u' });
+
+      await expect(repo.createTag('release/1/rc', { commitId: commit.id, createdBy: 'u' }))
+        .rejects.toThrow('Tag "release/1/rc" conflicts with tag "release/1"');
+      await expect(repo.createTag('release', { commitId: commit.id, createdBy: 'u' }))
+        .rejects.toThrow('Tag "release" conflicts with tag "release/1"');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+const { parseVersion, compareVersions, satisfies, maxSatisfying, isValidRange, createRepository } = require('../src');
+
+describe('SemVer 2.0', () => {
+  it('parses prerelease and build metadata', () => {
+    expect(parseVersion('1.2.3-rc.1+build.5')).toMatchObject({ major: 1, minor: 2, patch: 3, prerelease: ['rc', 1], build: ['build', '5'] });
+    expect(() => parseVersion('1.2')).toThrow();
+  });
+
+  it('orders versions by precedence', () => {
+    const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta', '1.0.0-rc.1', '1.0.0'];
+    expect([...ordered].reverse().sort(compareVersions)).toEqual(ordered);
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0);
+  });
+
+  it('matches ranges, keeping prereleases out unless on the same tuple', () => {
+    expect(satisfies('1.4.0', '^1.2.0')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfies('1.3.0-rc.1', '^1.2.0')).toBe(false);
+    expect(satisfies('1.2.1-rc.1', '>=1.2.1-rc.0')).toBe(true);
+    expect(satisfies('1.3.0-rc.1', '^1.2.0', { includePrerelease: true })).toBe(true);
+    expect(maxSatisfying(['1.0.0', '1.5.0', '2.0.0'], '~1.0.0 || 1.5.x')).toBe('1.5.0');
+    expect(isValidRange('>=1.0.0 <2')).toBe(true);
+    expect(isValidRange('bogus')).toBe(false);
+  });
+
+  it('cuts release candidates on release branches and promotes them', async () => {
+    const repo = createRepository('semver');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    await repo.updateArtifact(artifact.id, { content: { a: 1, b: 1 } }, 'u');
+    await repo.commit(artifact.id, 'init', 'u');
+
+    await repo.createBranch('release/1.0.0', 'u', 'main');
+    repo.checkout('release/1.0.0');
+    expect((await repo.updateArtifact(artifact.id, { content: { a: 2, b: 1 } }, 'u')).version).toBe('1.0.0-rc.1');
+    expect((await repo.updateArtifact(artifact.id, { content: { a: 3, b: 1 } }, 'u')).version).toBe('1.0.0-rc.2');
+    expect((await repo.promoteArtifact(artifact.id, 'u')).version).toBe('1.0.0');
+  });
+});
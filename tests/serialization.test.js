@@ -0,0 +1,98 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  Repository,
+  AuditLogService,
+  FormatMigrationRegistry,
+  REPOSITORY_FORMAT_VERSION,
+  createRepository,
+  decodeRecord,
+  encodeRecord,
+} = require('../src');
+
+async function repoWithCommit() {
+  const repo = createRepository('serialization');
+  const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+  await repo.commit(artifact.id, 'init', 'u');
+  return { repo, artifact };
+}
+
+describe('repository serialization', () => {
+  it('round-trips losslessly and deterministically', async () => {
+    const { repo, artifact } = await repoWithCommit();
+    const text = repo.serialize();
+    const restored = await Repository.deserialize(text);
+
+    expect(restored.serialize()).toBe(text);
+    expect(restored.getArtifact(artifact.id).createdAt).toBeInstanceOf(Date);
+    expect(restored.getCommitHistory()).toEqual(repo.getCommitHistory());
+    expect(restored.verifyAuditIntegrity()).toEqual({ valid: true });
+  });
+
+  it('rejects invalid records with their location', async () => {
+    const { repo } = await repoWithCommit();
+    const data = decodeRecord(repo.serialize());
+    data.collections.commits[0][1].author = 42;
+
+    await expect(Repository.deserialize(encodeRecord(data))).rejects.toThrow('commits["');
+  });
+
+  it('rejects formats newer than it understands', async () => {
+    const { repo } = await repoWithCommit();
+    const data = decodeRecord(repo.serialize());
+    data.formatVersion = REPOSITORY_FORMAT_VERSION + 1;
+
+    await expect(Repository.deserialize(encodeRecord(data))).rejects.toThrow('is newer than supported');
+  });
+
+  it('migrates the unversioned format', async () => {
+    const { repo, artifact } = await repoWithCommit();
+    const audit = new AuditLogService(repo.getConfig());
+    await audit.log({ action: 'ARTIFACT_CREATED', actor: 'u', target: artifact.id, targetType: 'artifact' });
+    const { dependencies, ...legacy } = JSON.parse(JSON.stringify(repo.getArtifact(artifact.id)));
+
+    const restored = await Repository.deserialize(JSON.stringify({
+      config: repo.getConfig(),
+      artifacts: [[artifact.id, legacy]],
+      auditLogs: audit.serialize(),
+    }));
+
+    expect(restored.getArtifact(artifact.id)).toMatchObject({ content: { a: 1 }, dependencies: [] });
+    expect(restored.getAuditLogs()).toHaveLength(1);
+    expect(restored.verifyAuditIntegrity()).toEqual({ valid: true });
+  });
+
+  it('loads a repository serialized by the original release, commits included', async () => {
+    // Output of serialize() at the first release: one prompt committed twice
+    const text = fs.readFileSync(path.join(__dirname, 'fixtures', 'baseline-repository.json'), 'utf8');
+    const legacy = JSON.parse(text);
+    const [[artifactId]] = legacy.artifacts;
+    const [first, second] = legacy.commits.map(([id]) => id);
+
+    const restored = await Repository.deserialize(text);
+
+    expect(restored.resolveRef('main')).toBe(second);
+    expect(restored.getCommitHistory(artifactId).map(c => c.id)).toEqual([second, first]);
+    expect(restored.getCommitArtifacts(second)).toEqual([
+      expect.objectContaining({ version: '0.0.1', content: { template: 'Hello there' } }),
+    ]);
+    expect(restored.getCommitArtifacts(first)[0].version).toBe('0.0.0');
+    expect(restored.getCommit(first).tree).toEqual({ [artifactId]: restored.getCommit(first).artifactHash });
+    expect(restored.verifyAuditIntegrity()).toEqual({ valid: true });
+
+    await restored.updateArtifact(artifactId, { content: { template: 'Hi' } }, 'bob');
+    const next = await restored.commit(artifactId, 'Shorten greeting', 'bob');
+    expect(next.parentCommits).toEqual([second]);
+    expect(next.changes).toEqual([expect.objectContaining({ path: '$.template', newValue: 'Hi' })]);
+  });
+
+  it('allows one migration per format version', () => {
+    const registry = new FormatMigrationRegistry();
+
+    expect(() => registry.register({ from: 1, to: 2, description: 'again', migrate: d => d }))
+      .toThrow('already registered');
+    expect(() => registry.register({ from: 3, to: 3, description: 'loop', migrate: d => d }))
+      .toThrow('must move to a later version');
+    expect(() => registry.migrate({ formatVersion: 2 }, 4)).toThrow('No migration from repository format v2');
+  });
+});
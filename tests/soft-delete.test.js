@@ -0,0 +1,78 @@
+const { createRepository } = require('../src');
+
+async function setup() {
+  const repo = createRepository('tombstones');
+  const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+  await repo.commit(artifact.id, 'init', 'u');
+  return { repo, id: artifact.id };
+}
+
+describe('soft delete', () => {
+  it('keeps a tombstone that can be committed and restored', async () => {
+    const { repo, id } = await setup();
+    await repo.deleteArtifact(id, 'u', 'obsolete');
+
+    const tombstone = repo.getArtifact(id);
+    expect(tombstone).toMatchObject({ deletedBy: 'u', deletionReason: 'obsolete', content: { a: 1 } });
+    expect(repo.getArtifactByName('d')).toBeUndefined();
+    expect(repo.getDeletedArtifacts().map(a => a.id)).toEqual([id]);
+    await expect(repo.updateArtifact(id, { content: { a: 2 } }, 'u')).rejects.toThrow('is deleted');
+
+    await repo.commit(id, 'delete', 'u');
+    const restored = await repo.restoreArtifact(id, 'u');
+    expect(restored.deletedAt).toBeUndefined();
+    expect(repo.getArtifactByName('d').id).toBe(id);
+  });
+
+  it('refuses to delete the checked-out branch', async () => {
+    const { repo } = await setup();
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+
+    await expect(repo.deleteBranch('feature/x', 'u')).rejects.toThrow('checked-out branch "feature/x"');
+    repo.checkout('main');
+    await repo.deleteBranch('feature/x', 'u');
+    expect(repo.listBranches().map(b => b.name)).not.toContain('feature/x');
+  });
+});
+
+describe('workspace protection', () => {
+  async function diverged() {
+    const { repo, id } = await setup();
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+    await repo.updateArtifact(id, { content: { a: 2 } }, 'u');
+    const change = await repo.commit(id, 'change', 'u');
+    repo.checkout('main');
+    return { repo, id, change };
+  }
+
+  it('refuses to merge over uncommitted edits to affected artifacts', async () => {
+    const { repo, id } = await diverged();
+    await repo.updateArtifact(id, { content: { a: 3 } }, 'u');
+
+    await expect(repo.merge('feature/x', 'main', 'u')).rejects.toThrow(`uncommitted changes to "${id}"`);
+    expect(repo.getArtifact(id).content).toEqual({ a: 3 });
+
+    repo.resetWorkspace();
+    expect((await repo.merge('feature/x', 'main', 'u')).status).toBe('fast-forward');
+    expect(repo.getArtifact(id).content).toEqual({ a: 2 });
+  });
+
+  it('refuses to cherry-pick over an uncommitted deletion', async () => {
+    const { repo, id, change } = await diverged();
+    await repo.deleteArtifact(id, 'u');
+
+    await expect(repo.cherryPick(change.id, 'main', 'u')).rejects.toThrow('uncommitted changes');
+    expect(repo.getArtifact(id).deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('leaves edits to unaffected artifacts alone', async () => {
+    const { repo, id, change } = await diverged();
+    const other = await repo.createArtifact({ type: 'data', name: 'o', content: { b: 1 }, createdBy: 'u' });
+
+    expect((await repo.cherryPick(change.id, 'main', 'u')).status).toBe('applied');
+    expect(repo.getArtifact(id).content).toEqual({ a: 2 });
+    expect(repo.getArtifact(other.id).content).toEqual({ b: 1 });
+  });
+});
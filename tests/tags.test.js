@@ -0,0 +1,37 @@
+const { createRepository } = require('../src');
+
+describe('tags', () => {
+  async function setup() {
+    const repo = createRepository('tags');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    const commit = await repo.commit(artifact.id, 'init', 'u');
+    return { repo, commit, id: artifact.id };
+  }
+
+  it('points lightweight and annotated tags at commits', async () => {
+    const { repo, commit, id } = await setup();
+    await repo.createTag('v1', { createdBy: 'u' });
+    await repo.createTag('release-1', { createdBy: 'u', message: 'First release', releaseNotes: 'Notes' });
+
+    expect(repo.resolveRef('v1')).toBe(commit.id);
+    expect(repo.verifyTag('v1')).toBe(false);
+    expect(repo.verifyTag('release-1')).toBe(true);
+    expect(repo.getArtifactAt(id, { tag: 'release-1' }).content).toEqual({ a: 1 });
+    expect(repo.listTags(/^release/).map(t => t.name)).toEqual(['release-1']);
+  });
+
+  it('is immutable except through privileged operations', async () => {
+    const { repo, id } = await setup();
+    await repo.createTag('v1', { createdBy: 'u', message: 'One' });
+    await expect(repo.createTag('v1', { createdBy: 'u' })).rejects.toThrow();
+
+    await repo.updateArtifact(id, { content: { a: 2 } }, 'u');
+    const next = await repo.commit(id, 'next', 'u');
+    await repo.forceMoveTag('v1', next.id, 'admin', 'Retag after hotfix');
+    expect(repo.resolveRef('v1')).toBe(next.id);
+    expect(repo.verifyTag('v1')).toBe(true);
+
+    await repo.forceDeleteTag('v1', 'admin', 'Withdrawn');
+    expect(repo.getTag('v1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+const { createRepository } = require('../src');
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('time-travel reads', () => {
+  it('reads an artifact at a commit, a version or a date', async () => {
+    const repo = createRepository('time-travel');
+    const artifact = await repo.createArtifact({ type: 'data', name: 'd', content: { a: 1 }, createdBy: 'u' });
+    const first = await repo.commit(artifact.id, 'v1', 'u');
+    await tick();
+    const between = new Date();
+    await tick();
+    const updated = await repo.updateArtifact(artifact.id, { content: { a: 1, b: 2 } }, 'u');
+    await repo.commit(artifact.id, 'v2', 'u');
+
+    expect(repo.getArtifactAt(artifact.id, { commitId: first.id }).content).toEqual({ a: 1 });
+    expect(repo.getArtifactAt(artifact.id, { version: updated.version }).content).toEqual({ a: 1, b: 2 });
+    expect(repo.getArtifactAt(artifact.id, { asOf: between }).content).toEqual({ a: 1 });
+    expect(repo.getArtifactAt(artifact.id, { asOf: new Date(0) })).toBeUndefined();
+  });
+
+  it('drops deleted branches from views after their deletion', async () => {
+    const repo = createRepository('time-travel');
+    await repo.createBranch('feature/x', 'u', 'main');
+    await tick();
+    const beforeDelete = new Date();
+    await tick();
+    await repo.deleteBranch('feature/x', 'u');
+
+    const names = at => repo.getRepositoryAt(at).branches.map(b => b.name);
+    expect(names(beforeDelete)).toContain('feature/x');
+    expect(names(new Date())).not.toContain('feature/x');
+    expect(repo.getArtifactAt('missing', { asOf: new Date(), branch: 'feature/x' })).toBeUndefined();
+
+    await repo.createBranch('feature/x', 'u', 'main');
+    expect(names(new Date())).toContain('feature/x');
+  });
+});
@@ -0,0 +1,58 @@
+const { checkToolCompatibility, createRepository } = require('../src');
+
+const v1 = {
+  inputSchema: { type: 'object', properties: { query: { type: 'string' }, limit: { type: 'number' } }, required: ['query'] },
+  outputSchema: { type: 'object', properties: { results: { type: 'array' } }, required: ['results'] },
+};
+
+describe('checkToolCompatibility', () => {
+  it('treats optional additions as compatible', () => {
+    const next = { ...v1, inputSchema: { ...v1.inputSchema, properties: { ...v1.inputSchema.properties, lang: { type: 'string' } } } };
+    const report = checkToolCompatibility(v1, next);
+
+    expect(report.compatible).toBe(true);
+    expect(report.changes.map(c => c.kind)).toEqual(['parameter-added']);
+  });
+
+  it('flags new required inputs and removed outputs as breaking', () => {
+    const next = {
+      inputSchema: { ...v1.inputSchema, required: ['query', 'limit'] },
+      outputSchema: { type: 'object', properties: {} },
+    };
+    const report = checkToolCompatibility(v1, next);
+
+    expect(report.compatible).toBe(false);
+    expect(report.breaking.map(c => c.kind).sort()).toEqual(['became-required', 'output-field-removed']);
+  });
+});
+
+describe('tool compatibility on the default branch', () => {
+  const breaking = { ...v1, inputSchema: { ...v1.inputSchema, required: ['query', 'limit'] } };
+
+  it('bumps breaking tool changes to a new MAJOR version', async () => {
+    const repo = createRepository('tools');
+    const tool = await repo.createArtifact({ type: 'tool', name: 'search', content: v1, createdBy: 'u' });
+    await repo.commit(tool.id, 'init', 'u');
+
+    const updated = await repo.updateArtifact(tool.id, { content: breaking }, 'u');
+    expect(updated.version).toBe('1.0.0');
+    await expect(repo.commit(tool.id, 'require limit', 'u')).resolves.toBeDefined();
+  });
+
+  it('blocks commits of breaking changes without a MAJOR bump', async () => {
+    const repo = createRepository('tools');
+    repo.getVersionRules().unregister('tool-parameters');
+    const tool = await repo.createArtifact({ type: 'tool', name: 'search', content: v1, createdBy: 'u' });
+    await repo.commit(tool.id, 'init', 'u');
+
+    await repo.createBranch('feature/x', 'u', 'main');
+    repo.checkout('feature/x');
+    await repo.updateArtifact(tool.id, { content: breaking }, 'u');
+    await expect(repo.commit(tool.id, 'on a branch', 'u')).resolves.toBeDefined();
+
+    repo.checkout('main');
+    await repo.updateArtifact(tool.id, { content: breaking }, 'u');
+    await expect(repo.commit(tool.id, 'on main', 'u')).rejects.toThrow('breaking tool contract changes without a MAJOR bump');
+    await expect(repo.merge('feature/x', 'main', 'u')).rejects.toThrow('breaking tool contract changes');
+  });
+});
@@ -0,0 +1,47 @@
+const { detectVersionBump, detectVersionType, createVersionRuleRegistry } = require('../src');
+const types = require('../src/types');
+
+describe('version rules', () => {
+  it('keeps the two-argument detectVersionType export', () => {
+    expect(types.detectVersionType).toBe(detectVersionType);
+    expect(detectVersionType({ a: 1 }, { a: 2 })).toBe('PATCH');
+    expect(detectVersionType({ a: 1 }, {})).toBe('MAJOR');
+  });
+
+  it('bumps by the most significant matching rule', () => {
+    const bump = detectVersionBump('workflow', '1.2.3',
+      { entry: 'a', nodes: [{ id: 'a' }], edges: [] },
+      { entry: 'a', nodes: [{ id: 'a' }, { id: 'b' }], edges: [] });
+
+    expect(bump.type).toBe('MINOR');
+    expect(bump.newVersion).toBe('1.3.0');
+    expect(bump.reasons[0]).toMatchObject({ ruleId: 'workflow-nodes', reason: 'Workflow node added' });
+  });
+
+  it('treats removed prompt variables as MAJOR', () => {
+    const bump = detectVersionBump('prompt', '1.0.0',
+      { template: 'Hi {{name}}', variables: [{ name: 'name', required: true }] },
+      { template: 'Hi', variables: [] });
+
+    expect(bump.newVersion).toBe('2.0.0');
+  });
+
+  it('reports changes no rule matched', () => {
+    const decision = createVersionRuleRegistry().detect('workflow',
+      { entry: 'a', nodes: [{ id: 'a' }], edges: [], label: 'x' },
+      { entry: 'a', nodes: [{ id: 'a' }, { id: 'b' }], edges: [], label: 'y' });
+
+    expect(decision.type).toBe('MINOR');
+    expect(decision.reasons).toContainEqual(expect.objectContaining({
+      ruleId: 'unmatched', type: 'PATCH', path: '$.label',
+    }));
+    expect(decision.reasons.filter(r => r.ruleId === 'unmatched')).toHaveLength(1);
+  });
+
+  it('reports content-unchanged decisions explicitly', () => {
+    const decision = createVersionRuleRegistry().detect('data', { a: 1 }, { a: 1 });
+
+    expect(decision.type).toBe('PATCH');
+    expect(decision.reasons).toEqual([expect.objectContaining({ ruleId: 'unchanged' })]);
+  });
+});
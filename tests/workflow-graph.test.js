@@ -0,0 +1,106 @@
+const { validateWorkflowGraph, createRepository } = require('../src');
+
+const codes = result => result.issues.map(i => `${i.severity}:${i.code}`);
+
+describe('validateWorkflowGraph', () => {
+  it('accepts a connected graph', () => {
+    const result = validateWorkflowGraph({
+      nodes: [{ id: 'a', tools: ['search'] }, { id: 'b' }],
+      edges: [{ from: 'a', to: 'b' }],
+    }, { tools: ['search'] });
+
+    expect(result).toEqual({ valid: true, issues: [], entries: ['a'], exits: ['b'] });
+  });
+
+  it('reports broken references, duplicates and cycles', () => {
+    const result = validateWorkflowGraph({
+      nodes: [{ id: 'a', tools: ['nope'], handoffs: ['ghost'] }, { id: 'b' }, { id: 'b' }, { id: 'c' }],
+      edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }, { from: 'c', to: 'b' }, { from: 'a', to: 'x' }],
+    }, { tools: [] });
+
+    expect(result.valid).toBe(false);
+    expect(codes(result)).toEqual(expect.arrayContaining([
+      'error:duplicate-node', 'error:dangling-edge', 'error:dangling-handoff', 'error:missing-tool', 'error:cycle',
+    ]));
+  });
+
+  it('allows loop-back edges', () => {
+    const result = validateWorkflowGraph({
+      nodes: [{ id: 'a' }, { id: 'b' }],
+      edges: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a', loop: true }],
+      exits: ['b'],
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('treats unreachable nodes and dead ends as errors unless relaxed', () => {
+    const content = {
+      nodes: [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }],
+      edges: [{ from: 'a', to: 'b' }, { from: 'c', to: 'd' }, { from: 'a', to: 'd' }],
+      entry: 'a',
+      exits: ['d'],
+    };
+
+    expect(codes(validateWorkflowGraph(content))).toEqual(['error:dead-end', 'error:unreachable-node']);
+
+    const relaxed = validateWorkflowGraph(content, { severities: { 'dead-end': 'warning', 'unreachable-node': 'warning' } });
+    expect(relaxed.valid).toBe(true);
+    expect(codes(relaxed)).toEqual(['warning:dead-end', 'warning:unreachable-node']);
+  });
+});
+
+describe('workflow validation on commit', () => {
+  async function setup() {
+    const repo = createRepository('workflows');
+    const tool = await repo.createArtifact({ type: 'tool', name: 'search', content: { inputSchema: {} }, createdBy: 'u' });
+    const workflow = await repo.createArtifact({
+      type: 'workflow', name: 'flow', content: { nodes: [{ id: 'a', tools: ['search'] }], edges: [] }, createdBy: 'u',
+    });
+    await repo.commitArtifacts([tool.id, workflow.id], 'init', 'u');
+    return { repo, tool, workflow };
+  }
+
+  it('rejects committing a broken workflow', async () => {
+    const { repo, workflow } = await setup();
+    await repo.updateArtifact(workflow.id, { content: { nodes: [{ id: 'a', tools: ['missing'] }], edges: [] } }, 'u');
+
+    await expect(repo.commit(workflow.id, 'break', 'u')).rejects.toThrow('Workflow "flow" is invalid');
+  });
+
+  it('rejects renaming or deleting a tool a committed workflow uses', async () => {
+    const { repo, tool } = await setup();
+
+    await repo.updateArtifact(tool.id, { name: 'lookup' }, 'u');
+    await expect(repo.commit(tool.id, 'rename', 'u')).rejects.toThrow('uses unknown tool "search"');
+
+    repo.resetWorkspace();
+    await repo.deleteArtifact(tool.id, 'u');
+    await expect(repo.commit(tool.id, 'delete', 'u')).rejects.toThrow('Workflow "flow" is invalid');
+  });
+
+  it('rejects deleting an artifact a workflow declares as a dependency', async () => {
+    const repo = createRepository('workflows');
+    const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content: { template: 'Hi' }, createdBy: 'u' });
+    const workflow = await repo.createArtifact({
+      type: 'workflow', name: 'flow', content: { nodes: [{ id: 'a' }], edges: [] }, createdBy: 'u', dependencies: ['greeting'],
+    });
+    await repo.commitArtifacts([prompt.id, workflow.id], 'init', 'u');
+
+    await repo.deleteArtifact(prompt.id, 'u');
+    await expect(repo.commit(prompt.id, 'delete', 'u')).rejects.toThrow('dependency "greeting@*" is missing');
+  });
+
+  it('rejects bumping a dependency out of the range a workflow declares', async () => {
+    const repo = createRepository('workflows');
+    const prompt = await repo.createArtifact({ type: 'prompt', name: 'greeting', content: { template: 'Hi' }, createdBy: 'u' });
+    const workflow = await repo.createArtifact({
+      type: 'workflow', name: 'flow', content: { nodes: [{ id: 'a' }], edges: [] }, createdBy: 'u', dependencies: ['greeting@~0.0.0'],
+    });
+    await repo.commitArtifacts([prompt.id, workflow.id], 'init', 'u');
+
+    const bumped = await repo.updateArtifact(prompt.id, { content: { template: 'Hello {{name}}', variables: [{ name: 'name', required: true }] } }, 'u');
+    expect(bumped.version).not.toMatch(/^0\.0\./);
+    await expect(repo.commit(prompt.id, 'bump', 'u')).rejects.toThrow('dependency "greeting@~0.0.0" is unsatisfied');
+  });
+});